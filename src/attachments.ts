@@ -0,0 +1,174 @@
+/**
+ * Note attachments: reading files to upload, MIME type detection and saving
+ * downloads.
+ *
+ * MIME types are detected from the leading bytes of common file formats and
+ * fall back to the file extension, so a file named wrongly still gets the
+ * right type.
+ */
+
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import { NoteAttachment } from "./blinko.js";
+import { LocalFiles } from "./files.js";
+
+/**
+ * Default and largest size of a file uploaded or downloaded by a tool.
+ */
+export const DEFAULT_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Largest image returned inline as image content.
+ */
+export const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const SIGNATURES: { mimeType: string; offset: number; bytes: string }[] = [
+  { mimeType: "image/png", offset: 0, bytes: "\x89PNG\r\n\x1a\n" },
+  { mimeType: "image/jpeg", offset: 0, bytes: "\xff\xd8\xff" },
+  { mimeType: "image/gif", offset: 0, bytes: "GIF8" },
+  { mimeType: "image/webp", offset: 8, bytes: "WEBP" },
+  { mimeType: "image/bmp", offset: 0, bytes: "BM" },
+  { mimeType: "application/pdf", offset: 0, bytes: "%PDF-" },
+  { mimeType: "application/gzip", offset: 0, bytes: "\x1f\x8b" },
+  { mimeType: "audio/mpeg", offset: 0, bytes: "ID3" },
+  { mimeType: "audio/wav", offset: 8, bytes: "WAVE" },
+  { mimeType: "audio/ogg", offset: 0, bytes: "OggS" },
+  { mimeType: "video/mp4", offset: 4, bytes: "ftyp" },
+];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".bmp": "image/bmp",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".xml": "application/xml",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const OCTET_STREAM = "application/octet-stream";
+
+/**
+ * Detect the MIME type of a file from its contents, then its name.
+ */
+export function detectMimeType(data: Uint8Array, name: string): string {
+  const matches = (offset: number, bytes: string) =>
+    data.length >= offset + bytes.length && [...bytes].every((char, i) => data[offset + i] === char.charCodeAt(0));
+  const signature = SIGNATURES.find((s) => matches(s.offset, s.bytes));
+  if (signature) {
+    return signature.mimeType;
+  }
+
+  const extensionType = EXTENSION_TYPES[extname(name).toLowerCase()];
+  // Office documents are ZIP files, so the extension is more specific
+  if (matches(0, "PK\x03\x04")) {
+    return extensionType?.startsWith("application/vnd.") ? extensionType : "application/zip";
+  }
+  return extensionType ?? OCTET_STREAM;
+}
+
+/**
+ * Whether a MIME type is an image format MCP clients can show.
+ */
+export function isInlineImage(mimeType: string | undefined): boolean {
+  return ["image/png", "image/jpeg", "image/gif", "image/webp"].includes(mimeType ?? "");
+}
+
+/**
+ * Whether a MIME type is text that can be returned as is.
+ */
+export function isText(mimeType: string | undefined): boolean {
+  return /^text\/|^application\/(json|xml)$|\+xml$/.test(mimeType ?? "");
+}
+
+/**
+ * Read a local file to upload.
+ * @param files - Local file access the path is checked against.
+ * @throws If the file is missing, not allowed or larger than maxBytes.
+ */
+export async function readLocalFile(path: string, maxBytes: number, files: LocalFiles): Promise<{ data: Buffer; name: string }> {
+  const fullPath = await files.resolve(path);
+  const info = await stat(fullPath).catch((e) => {
+    throw new Error(`Could not read ${fullPath}: ${e.message}`);
+  });
+  if (!info.isFile()) {
+    throw new Error(`${fullPath} is not a file`);
+  }
+  if (info.size > maxBytes) {
+    throw new Error(`${fullPath} is ${info.size} bytes, larger than the limit of ${maxBytes} bytes`);
+  }
+  return { data: await readFile(fullPath), name: basename(fullPath) };
+}
+
+/**
+ * Decode a base64 file, with or without a "data:<type>;base64," prefix.
+ * @throws If the data is not valid base64 or larger than maxBytes.
+ */
+export function decodeBase64File(value: string, maxBytes: number): Buffer {
+  const base64 = value.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+  if (!base64 || !/^[A-Za-z0-9+/_-]*={0,2}$/.test(base64)) {
+    throw new Error("data must be base64-encoded");
+  }
+  const data = Buffer.from(base64, "base64");
+  if (data.length > maxBytes) {
+    throw new Error(`The file is ${data.length} bytes, larger than the limit of ${maxBytes} bytes`);
+  }
+  return data;
+}
+
+/**
+ * Find an attachment of a note by its name or path.
+ */
+export function findAttachment(attachments: NoteAttachment[], nameOrPath: string): NoteAttachment {
+  const found = attachments.filter((a) => a.path === nameOrPath || a.name === nameOrPath);
+  if (found.length === 0) {
+    throw new Error(`No attachment "${nameOrPath}". Attachments: ${attachments.map((a) => a.name).join(", ") || "none"}`);
+  }
+  if (found.length > 1) {
+    throw new Error(`Several attachments are named "${nameOrPath}"; pass the path instead: ${found.map((a) => a.path).join(", ")}`);
+  }
+  return found[0];
+}
+
+/**
+ * Save a downloaded file. A directory (an existing one, or a path ending in
+ * "/") receives the file under its attachment name; existing files are only
+ * replaced with overwrite.
+ * @param files - Local file access the path is checked against.
+ * @returns The path written.
+ */
+export async function saveFile(data: Uint8Array, outputPath: string, name: string, overwrite: boolean, files: LocalFiles): Promise<string> {
+  let target = await files.resolve(outputPath);
+  const info = await stat(target).catch(() => undefined);
+  if (info?.isDirectory() || /[\\/]$/.test(outputPath)) {
+    target = await files.resolve(join(target, basename(name)));
+  }
+  await mkdir(dirname(target), { recursive: true });
+  try {
+    await writeFile(target, data, { flag: overwrite ? "w" : "wx" });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${target} already exists; pass overwrite: true to replace it`);
+    }
+    throw e;
+  }
+  return target;
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BlinkoClient, Note } from "./blinko.js";
+import { AuditEntry, laterChanges, NoteSnapshot, undoableEntries, undoEntry } from "./audit.js";
+
+function snapshot(overrides: Partial<NoteSnapshot> = {}): NoteSnapshot {
+  return { id: 1, content: "Before", type: 0, isArchived: false, isRecycle: false, isShare: false, isTop: false, ...overrides } as NoteSnapshot;
+}
+
+function entry(id: string, changes: AuditEntry["changes"], overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return { id, timestamp: "2026-01-01T00:00:00.000Z", tool: "tool", instance: "default", arguments: {}, changes, ...overrides };
+}
+
+/**
+ * Client stub recording its calls; calls for note 13 fail.
+ */
+function client() {
+  const calls: string[] = [];
+  const record = (call: string, noteId?: number) => {
+    if (noteId === 13) {
+      throw new Error("Note not found");
+    }
+    calls.push(call);
+    return { success: true };
+  };
+  const blinko = {
+    async updateNote(noteId: number, updates: object) {
+      return record(`update ${noteId} ${JSON.stringify(updates)}`, noteId);
+    },
+    async trashNote(noteId: number) {
+      return record(`trash ${noteId}`, noteId);
+    },
+    async upsertNote({ content }: { content: string }) {
+      record(`upsert ${content}`);
+      return { id: 50, content } as Note;
+    },
+    async shareNote(params: object) {
+      return record(`share ${JSON.stringify(params)}`);
+    },
+  } as unknown as BlinkoClient;
+  return { blinko, calls };
+}
+
+describe("undoEntry", () => {
+  it("reverts changes last first", async () => {
+    const { blinko, calls } = client();
+    const { reverted, failed } = await undoEntry(blinko, entry("a", [
+      { action: "create", noteId: 2 },
+      { action: "update", noteId: 1, before: snapshot({ isTop: true }), updates: { content: "After" } },
+    ]));
+    assert.deepEqual(calls, [
+      'update 1 {"content":"Before","type":0,"isArchived":false,"isRecycle":false,"isTop":true}',
+      "trash 2",
+    ]);
+    assert.deepEqual(reverted, ["Restored note 1", "Moved note 2, which the operation created, to the recycle bin"]);
+    assert.deepEqual(failed, []);
+  });
+
+  it("recreates deleted notes with their flags", async () => {
+    const { blinko, calls } = client();
+    const { reverted } = await undoEntry(blinko, entry("a", [{ action: "delete", noteId: 1, before: snapshot({ isArchived: true }) }]));
+    assert.deepEqual(calls, ["upsert Before", 'update 50 {"isTop":false,"isArchived":true,"isRecycle":false}']);
+    assert.deepEqual(reverted, ["Recreated deleted note 1 as note 50"]);
+  });
+
+  it("shares again with a new password when the note had one", async () => {
+    const { blinko, calls } = client();
+    const { reverted } = await undoEntry(blinko, entry("a", [
+      { action: "share", noteId: 1, before: snapshot({ isShare: true, hasSharePassword: true }) },
+      { action: "share", noteId: 2, before: snapshot({ id: 2 }) },
+    ]));
+    assert.equal(calls[0], 'share {"id":2,"isCancel":true}');
+    const password = /"password":"(\d{6})"/.exec(calls[1])?.[1];
+    assert.ok(password);
+    assert.match(reverted[1], new RegExp(`new password ${password}`));
+  });
+
+  it("keeps going after a change fails", async () => {
+    const { blinko, calls } = client();
+    const { reverted, failed } = await undoEntry(blinko, entry("a", [
+      { action: "update", noteId: 1, before: snapshot() },
+      { action: "update", noteId: 13, before: snapshot({ id: 13 }) },
+      { action: "update", noteId: 3 },
+    ]));
+    assert.deepEqual(failed, ["update of note 3: No snapshot of note 3 was recorded", "update of note 13: Note not found"]);
+    assert.deepEqual(reverted, ["Restored note 1"]);
+    assert.equal(calls.length, 1);
+  });
+});
+
+describe("undoableEntries", () => {
+  it("leaves out undo entries, undone entries and other instances", () => {
+    const entries = [
+      entry("a", [{ action: "create", noteId: 1 }]),
+      entry("b", [{ action: "create", noteId: 2 }]),
+      entry("c", [{ action: "create", noteId: 3 }], { instance: "work" }),
+      entry("d", [{ action: "delete", noteId: 2 }], { undoes: ["b"] }),
+      entry("e", [{ action: "update", noteId: 1 }]),
+    ];
+    assert.deepEqual(undoableEntries(entries, "default").map((e) => e.id), ["e", "a"]);
+    assert.deepEqual(laterChanges(entries, entries[0]).map((e) => e.id), ["e"]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Append-only audit log of tool calls that change notes, and undo.
+ *
+ * Every tool call that changed at least one note appends one JSON line with
+ * the tool name, arguments, instance, timestamp and the changes it made.
+ * The client snapshots a note before updating, sharing or deleting it, so a
+ * change can be reverted by replaying the snapshot. An undo is logged as an
+ * entry of its own, naming the entries it reverted.
+ *
+ * Share passwords are never written to the log: snapshots only keep whether
+ * a password was set, and password arguments are redacted.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes, randomInt } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { BlinkoClient, Note, UpdateNoteParams } from "./blinko.js";
+
+export type AuditAction = "create" | "update" | "delete" | "share";
+
+/**
+ * A note as snapshotted before a change, without its share password.
+ */
+export type NoteSnapshot = Omit<Note, "sharePassword"> & {
+  hasSharePassword?: boolean;
+};
+
+export interface AuditChange {
+  action: AuditAction;
+  noteId: number;
+  /**
+   * The note before the change; missing for creates and notes that could not be read.
+   */
+  before?: NoteSnapshot;
+  /**
+   * Fields changed by an update.
+   */
+  updates?: UpdateNoteParams;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  instance: string;
+  arguments: Record<string, unknown>;
+  changes: AuditChange[];
+  /**
+   * Error the tool call failed with after making some changes.
+   */
+  error?: string;
+  /**
+   * IDs of the entries reverted by this entry (blinko_undo only).
+   */
+  undoes?: string[];
+}
+
+/**
+ * Changes made during the current tool call; only set while it is audited.
+ */
+export const auditContext = new AsyncLocalStorage<AuditChange[]>();
+
+/**
+ * Record a change made during the current tool call, if it is audited.
+ */
+export function recordChange(change: Omit<AuditChange, "before"> & { before?: Note }): void {
+  const store = auditContext.getStore();
+  if (!store) {
+    return;
+  }
+  if (change.before) {
+    const { sharePassword, ...before } = change.before;
+    store.push({ ...change, before: { ...before, hasSharePassword: Boolean(sharePassword) } });
+  } else {
+    store.push(change as AuditChange);
+  }
+}
+
+const REDACTED = "[redacted]";
+
+/**
+ * Tool arguments with password values replaced, for logging.
+ */
+function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, /password/i.test(key) && value ? REDACTED : value]));
+}
+
+/**
+ * Whether the current tool call is audited, i.e. whether notes should be
+ * snapshotted before they change.
+ */
+export function isAudited(): boolean {
+  return auditContext.getStore() !== undefined;
+}
+
+export class AuditLog {
+  readonly path: string;
+
+  /**
+   * @param path - JSONL file the entries are appended to.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Append an entry, creating the file (readable by the owner only) if needed.
+   */
+  async append(entry: Omit<AuditEntry, "id" | "timestamp">): Promise<AuditEntry> {
+    const full: AuditEntry = {
+      id: randomBytes(4).toString("hex"),
+      timestamp: new Date().toISOString(),
+      ...entry,
+      arguments: redactArguments(entry.arguments),
+    };
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(full)}\n`, { encoding: "utf8", mode: 0o600 });
+    return full;
+  }
+
+  /**
+   * Read all entries, oldest first. Lines that are not valid JSON are skipped.
+   */
+  async entries(): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the log is still usable
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * IDs of the entries reverted by a later undo.
+ */
+export function undoneEntryIds(entries: AuditEntry[]): Set<string> {
+  return new Set(entries.flatMap((entry) => entry.undoes ?? []));
+}
+
+/**
+ * Entries of an instance that can still be undone, newest first.
+ * Undo entries themselves are left out, so undoing twice does not redo.
+ */
+export function undoableEntries(entries: AuditEntry[], instance: string): AuditEntry[] {
+  const undone = undoneEntryIds(entries);
+  return entries.filter((entry) => entry.instance === instance && !entry.undoes && !undone.has(entry.id)).reverse();
+}
+
+/**
+ * Later entries that changed the same notes as an entry and were not undone.
+ * Undoing the entry would overwrite their changes.
+ */
+export function laterChanges(entries: AuditEntry[], entry: AuditEntry): AuditEntry[] {
+  const undone = undoneEntryIds(entries);
+  const noteIds = new Set(entry.changes.map((change) => change.noteId));
+  return entries
+    .slice(entries.indexOf(entry) + 1)
+    .filter((later) => later.instance === entry.instance && !undone.has(later.id) && !later.undoes?.includes(entry.id))
+    .filter((later) => later.changes.some((change) => noteIds.has(change.noteId)));
+}
+
+/**
+ * Revert one change by replaying the snapshot of the note.
+ * @returns A description of what was done.
+ */
+async function revertChange(blinko: BlinkoClient, change: AuditChange): Promise<string> {
+  const { action, noteId, before } = change;
+  if (action === "create") {
+    await blinko.trashNote(noteId);
+    return `Moved note ${noteId}, which the operation created, to the recycle bin`;
+  }
+  if (!before) {
+    throw new Error(`No snapshot of note ${noteId} was recorded`);
+  }
+
+  switch (action) {
+    case "update":
+      await blinko.updateNote(noteId, {
+        content: before.content,
+        type: before.type,
+        isArchived: before.isArchived,
+        isRecycle: before.isRecycle,
+        isTop: before.isTop,
+      });
+      return `Restored note ${noteId}`;
+    case "delete": {
+      const created = await blinko.upsertNote({ content: before.content, type: before.type as 0 | 1 | 2 });
+      if (before.isTop || before.isArchived || before.isRecycle) {
+        await blinko.updateNote(created.id, { isTop: before.isTop, isArchived: before.isArchived, isRecycle: before.isRecycle });
+      }
+      return `Recreated deleted note ${noteId} as note ${created.id}`;
+    }
+    case "share":
+      if (before.isShare && before.hasSharePassword) {
+        // The old password was not logged, so the note gets a new one
+        const password = String(randomInt(0, 1000000)).padStart(6, "0");
+        await blinko.shareNote({ id: noteId, password });
+        return `Shared note ${noteId} again with the new password ${password} (the share link changed)`;
+      }
+      if (before.isShare) {
+        await blinko.shareNote({ id: noteId });
+        return `Shared note ${noteId} again (the share link changed)`;
+      }
+      await blinko.shareNote({ id: noteId, isCancel: true });
+      return `Stopped sharing note ${noteId}`;
+  }
+}
+
+/**
+ * Revert the changes of an entry, last change first.
+ * A failing change does not stop the others.
+ */
+export async function undoEntry(blinko: BlinkoClient, entry: AuditEntry): Promise<{ reverted: string[]; failed: string[] }> {
+  const reverted: string[] = [];
+  const failed: string[] = [];
+  for (const change of [...entry.changes].reverse()) {
+    try {
+      reverted.push(await revertChange(blinko, change));
+    } catch (e) {
+      failed.push(`${change.action} of note ${change.noteId}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { reverted, failed };
+}
+
+/**
+ * One-line summary of an entry, e.g. "a1b2c3d4 2026-10-19T12:00:00.000Z update_blinko_note: update 12".
+ */
+export function describeEntry(entry: AuditEntry): string {
+  const changes = entry.changes.map((change) => `${change.action} ${change.noteId}`);
+  const shown = changes.length > 5 ? [...changes.slice(0, 5), `${changes.length - 5} more`] : changes;
+  return `${entry.id} ${entry.timestamp} ${entry.tool}: ${shown.join(", ")}${entry.undoes ? ` (undoes ${entry.undoes.join(", ")})` : ""}${entry.error ? ` (failed: ${entry.error})` : ""}`;
+}
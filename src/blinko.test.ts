@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { BlinkoClient } from "./blinko.js";
+import { BlinkoNetworkError, BlinkoRateLimitError, BlinkoServerError } from "./errors.js";
+
+/**
+ * Replace fetch with a stub answering each call with the next response, or
+ * throwing it if it is an Error.
+ */
+function stubFetch(...responses: (Response | Error)[]) {
+  return mock.method(globalThis, "fetch", async () => {
+    const next = responses.shift();
+    if (!next) {
+      throw new Error("unexpected request");
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  });
+}
+
+function status(code: number, headers: Record<string, string> = {}): Response {
+  return new Response("failed", { status: code, headers });
+}
+
+function json(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200 });
+}
+
+function connectionError(code: string): Error {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+const client = (maxRetries = 3) => new BlinkoClient({ domain: "http://blinko.test", apiKey: "key", maxRetries });
+
+describe("BlinkoClient retries", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("retries 429 and 5xx responses on idempotent requests", async () => {
+    const fetch = stubFetch(status(503, { "Retry-After": "0" }), status(429, { "Retry-After": "0" }), json([{ id: 1 }]));
+    assert.deepEqual(await client().searchNotes({ searchText: "" }), [{ id: 1 }]);
+    assert.equal(fetch.mock.callCount(), 3);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const fetch = stubFetch(...Array.from({ length: 3 }, () => status(500, { "Retry-After": "0" })));
+    await assert.rejects(client(2).searchNotes({ searchText: "" }), BlinkoServerError);
+    assert.equal(fetch.mock.callCount(), 3);
+  });
+
+  it("backs off before retrying network errors", async () => {
+    const fetch = stubFetch(connectionError("ECONNRESET"), json([]));
+    const started = Date.now();
+    assert.deepEqual(await client().searchNotes({ searchText: "" }), []);
+    assert.equal(fetch.mock.callCount(), 2);
+    // Half of the 500ms base delay at least
+    assert.ok(Date.now() - started >= 240);
+  });
+
+  it("fails at once when Retry-After is too long", async () => {
+    const fetch = stubFetch(status(429, { "Retry-After": "120" }));
+    await assert.rejects(client().searchNotes({ searchText: "" }), (e) => e instanceof BlinkoRateLimitError && e.retryAfterMs === 120_000);
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+});
+
+describe("BlinkoClient non-idempotent requests", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("does not retry server errors the change may have gone through", async () => {
+    const fetch = stubFetch(status(500), json({ id: 1 }));
+    await assert.rejects(client().upsertNote({ content: "x" }), BlinkoServerError);
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("retries 429 and 503 with Retry-After", async () => {
+    const fetch = stubFetch(status(429, { "Retry-After": "0" }), status(503, { "Retry-After": "0" }), json({ id: 7 }));
+    assert.equal((await client().upsertNote({ content: "x" })).id, 7);
+    assert.equal(fetch.mock.callCount(), 3);
+  });
+
+  it("reports a dropped connection as possibly applied", async () => {
+    const fetch = stubFetch(connectionError("ECONNRESET"), json({ id: 1 }));
+    await assert.rejects(
+      client().upsertNote({ content: "x" }),
+      (e) => e instanceof BlinkoNetworkError && e.maybeApplied && /may have been applied/.test(e.message)
+    );
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("retries connection errors raised before the request was sent", async () => {
+    const fetch = stubFetch(connectionError("ECONNREFUSED"), json({ id: 3 }));
+    assert.equal((await client().upsertNote({ content: "x" })).id, 3);
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+});
@@ -1,8 +1,18 @@
 /**
  * Blinko client used to interact with the Blinko API.
  */
+import { isAudited, recordChange } from "./audit.js";
+import {
+  BlinkoApiError,
+  BlinkoNetworkError,
+  BlinkoNotFoundError,
+  BlinkoValidationError,
+  errorFromResponse,
+} from "./errors.js";
+
 export interface SearchNotesParams {
   size?: number;
+  page?: number;
   type?: -1 | 0 | 1 | 2;
   isArchived?: boolean;
   isRecycle?: boolean;
@@ -13,6 +23,34 @@ export interface SearchNotesParams {
   hasTodo?: boolean;
 }
 
+export interface NoteAttachment {
+  id?: number;
+  name: string;
+  path: string;
+  size?: number | string;
+  type?: string;
+  createdAt?: string;
+}
+
+/**
+ * A link between two notes. Outgoing references carry toNote,
+ * incoming ones (referencedBy) carry fromNote, where the API includes them.
+ */
+export interface NoteReference {
+  toNoteId?: number;
+  fromNoteId?: number;
+  toNote?: Pick<Note, "id" | "content"> & Partial<Note>;
+  fromNote?: Pick<Note, "id" | "content"> & Partial<Note>;
+}
+
+export interface NoteComment {
+  id: number;
+  content: string;
+  guestName?: string | null;
+  account?: { name?: string; nickname?: string } | null;
+  createdAt: string;
+}
+
 export interface Note {
   id: number;
   type: number;
@@ -24,8 +62,18 @@ export interface Note {
   isReviewed: boolean;
   sharePassword?: string;
   shareEncryptedUrl?: string | null;
+  shareExpiryDate?: string | null;
+  shareViewCount?: number;
   createdAt: string;
   updatedAt: string;
+  /**
+   * Only returned by the detail endpoint.
+   */
+  attachments?: NoteAttachment[];
+  references?: NoteReference[];
+  referencedBy?: NoteReference[];
+  comments?: NoteComment[];
+  tags?: { tag: { id: number; name: string } }[];
 }
 
 export interface ShareNoteParams {
@@ -41,17 +89,123 @@ export interface ShareNoteResult {
   shareEncryptedUrl?: string | null;
 }
 
+export interface UpsertNoteParams {
+  content: string;
+  type?: 0 | 1 | 2;
+  attachments?: NoteAttachment[];
+}
+
 export interface UpdateNoteParams {
   content?: string;
   type?: number;
   isArchived?: boolean;
   isRecycle?: boolean;
   isTop?: boolean;
+  /**
+   * Uploaded files to attach; attachments the note already has are kept.
+   */
+  attachments?: NoteAttachment[];
+}
+
+/**
+ * A file downloaded from Blinko.
+ */
+export interface DownloadedFile {
+  data: Buffer;
+  /**
+   * MIME type from the Content-Type header, if the server sent one.
+   */
+  contentType?: string;
+}
+
+export interface BlinkoClientOptions {
+  domain: string;
+  apiKey: string;
+  onNoteChanged?: (noteId: number) => void;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+interface RequestOptions {
+  method: "GET" | "POST";
+  body?: unknown;
+  /**
+   * Multipart body, sent instead of a JSON body.
+   */
+  form?: FormData;
+  /**
+   * Short description of the operation, used in error messages.
+   */
+  context: string;
+  /**
+   * Whether sending the request twice is harmless (default: true). Other
+   * requests, such as creating a note, are only retried when they cannot
+   * have reached the server.
+   */
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const GET_NOTES_CONCURRENCY = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+/**
+ * Longest Retry-After delay we are willing to wait for before giving up.
+ */
+const RETRY_AFTER_MAX_MS = 60_000;
+
+/**
+ * Connection errors raised before a request is sent, so retrying it cannot
+ * apply a change twice.
+ */
+const UNSENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"];
+
+/**
+ * The error code of a failed fetch, which undici puts on the cause.
+ */
+function errorCode(error: unknown): string | undefined {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return cause?.code ?? code;
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined if absent or invalid.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff delay with full jitter for the given attempt (0-based).
+ */
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 export class BlinkoClient {
   private readonly baseUrl: string;
   private readonly apiKey: string;
+  private readonly onNoteChanged?: (noteId: number) => void;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
 
   /**
    * Create a new Blinko client.
@@ -59,10 +213,16 @@ export class BlinkoClient {
    *                 - Pure domain: "example.com" or "example.com:3000"
    *                 - Full URL: "https://example.com" or "http://example.com:3000"
    * @param apiKey - The API key for authentication.
+   * @param onNoteChanged - Optional callback invoked after a note is updated, archived or deleted.
+   * @param timeoutMs - Timeout for a single HTTP attempt (default: 30000).
+   * @param maxRetries - Retries on 429, 5xx and network errors (default: 3).
    */
-  constructor({ domain, apiKey }: { domain: string; apiKey: string }) {
+  constructor({ domain, apiKey, onNoteChanged, timeoutMs, maxRetries }: BlinkoClientOptions) {
     this.baseUrl = this.normalizeDomain(domain);
     this.apiKey = apiKey;
+    this.onNoteChanged = onNoteChanged;
+    this.timeoutMs = timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = maxRetries ?? DEFAULT_MAX_RETRIES;
   }
 
   /**
@@ -87,67 +247,215 @@ export class BlinkoClient {
     return `https://${domain}`;
   }
 
+  /**
+   * Send a request to the Blinko API.
+   * Each attempt is bounded by the client timeout. 429, 5xx and network errors
+   * are retried with exponential backoff, honoring Retry-After when present.
+   * Requests that are not idempotent are only retried on errors raised before
+   * the server could act on them: connection failures such as ECONNREFUSED,
+   * 429, and 503 with Retry-After.
+   * @param path - API path relative to the base URL.
+   * @param options - Method, JSON or multipart body and error context.
+   * @param read - Reads the body of a successful response (default: as text).
+   * @returns The response body as returned by read.
+   * @throws BlinkoApiError subclass describing the failure.
+   */
+  private async request(path: string, options: RequestOptions): Promise<string>;
+  private async request<T>(path: string, options: RequestOptions, read: (resp: Response) => Promise<T>): Promise<T>;
+  private async request<T>(
+    path: string,
+    { method, body, form, context, idempotent = true }: RequestOptions,
+    read: (resp: Response) => Promise<T> = (resp) => resp.text() as Promise<T>
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = {
+      "Authorization": `Bearer ${this.apiKey}`,
+    };
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.maxRetries;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      let resp: Response;
+      let result: T | undefined;
+      let text = "";
+      try {
+        resp = await fetch(url, {
+          method,
+          headers,
+          // fetch sets the multipart Content-Type with its boundary itself
+          body: form ?? (body === undefined ? undefined : JSON.stringify(body)),
+          signal: controller.signal,
+        });
+        if (resp.ok) {
+          result = await read(resp);
+        } else {
+          text = await resp.text();
+        }
+      } catch (e) {
+        // Errors raised by read itself, e.g. a size limit, are not retried
+        if (e instanceof BlinkoApiError) {
+          throw e;
+        }
+        const timedOut = controller.signal.aborted;
+        const unsent = !timedOut && UNSENT_ERROR_CODES.includes(errorCode(e) ?? "");
+        if (canRetry && (idempotent || unsent)) {
+          await sleep(backoffDelay(attempt));
+          continue;
+        }
+        const reason = timedOut ? `timed out after ${this.timeoutMs}ms` : (e as Error).message;
+        const maybeApplied = !idempotent && !unsent;
+        throw new BlinkoNetworkError(
+          `${context}: could not reach ${this.baseUrl}: ${reason}${maybeApplied ? "; the change may have been applied" : ""}`,
+          timedOut,
+          maybeApplied
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (resp.ok) {
+        return result as T;
+      }
+
+      const retryAfterMs = parseRetryAfter(resp.headers.get("Retry-After"));
+      const retryable = idempotent
+        ? resp.status === 429 || resp.status >= 500
+        : resp.status === 429 || (resp.status === 503 && retryAfterMs !== undefined);
+      const tooLong = retryAfterMs !== undefined && retryAfterMs > RETRY_AFTER_MAX_MS;
+      if (retryable && canRetry && !tooLong) {
+        await sleep(retryAfterMs ?? backoffDelay(attempt));
+        continue;
+      }
+
+      throw errorFromResponse(resp.status, text, context, retryAfterMs);
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response body.
+   */
+  private async requestJson<T>(path: string, options: RequestOptions): Promise<T> {
+    const text = await this.request(path, options);
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new BlinkoApiError(`${options.context}: invalid JSON response: ${text.slice(0, 200)}`);
+    }
+  }
+
   /**
    * Search notes in Blinko.
    * @param params - Search parameters.
    * @returns Array of matching notes.
    */
   async searchNotes(params: SearchNotesParams): Promise<Note[]> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/v1/note/list`;
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          size: params.size ?? 5,
-          type: params.type ?? -1,
-          isArchived: params.isArchived ?? false,
-          isRecycle: params.isRecycle ?? false,
-          searchText: params.searchText,
-          isUseAiQuery: params.isUseAiQuery ?? true,
-          startDate: params.startDate ?? null,
-          endDate: params.endDate ?? null,
-          hasTodo: params.hasTodo ?? false,
-        }),
-      });
-
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`request failed with status ${resp.status}: ${errorText}`);
+    return this.requestJson<Note[]>("/api/v1/note/list", {
+      method: "POST",
+      context: "Search notes",
+      body: {
+        page: params.page ?? 1,
+        size: params.size ?? 5,
+        type: params.type ?? -1,
+        isArchived: params.isArchived ?? false,
+        isRecycle: params.isRecycle ?? false,
+        searchText: params.searchText,
+        isUseAiQuery: params.isUseAiQuery ?? true,
+        startDate: params.startDate ?? null,
+        endDate: params.endDate ?? null,
+        hasTodo: params.hasTodo ?? false,
+      },
+    });
+  }
+
+  /**
+   * Iterate over every note matching a search, fetching one page at a time.
+   * Exact text matching is used unless isUseAiQuery is set, since AI search
+   * ranks results rather than paging through a stable list.
+   * @param params - Search parameters (page and size are managed by the iterator).
+   * @param pageSize - Number of notes fetched per request (default: 50).
+   */
+  async *iterateNotes(params: Omit<SearchNotesParams, "page" | "size">, pageSize = 50): AsyncGenerator<Note> {
+    const seen = new Set<number>();
+    for (let page = 1; ; page++) {
+      const notes = await this.searchNotes({ isUseAiQuery: false, ...params, page, size: pageSize });
+      const fresh = notes.filter((note) => !seen.has(note.id));
+      for (const note of fresh) {
+        seen.add(note.id);
+        yield note;
       }
 
-      return await resp.json();
-    } catch (e) {
-      throw e;
+      // Stop on a short page, or if the server ignores paging and repeats itself
+      if (notes.length < pageSize || fresh.length === 0) {
+        return;
+      }
     }
   }
 
   /**
-   * Get daily review notes from Blinko.
-   * @returns Array of notes for daily review.
+   * Snapshot a note for the audit log before changing it, if the current tool
+   * call is audited. A note that cannot be read is recorded without a snapshot.
    */
-  async getDailyReviewNotes(): Promise<Note[]> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/v1/note/daily-review-list`;
-      const resp = await fetch(apiUrl, {
-        method: "GET",
-        headers: {
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-      });
+  private async auditSnapshot(noteId: number): Promise<Note | undefined> {
+    if (!isAudited()) {
+      return undefined;
+    }
+    return this.getNote(noteId).catch(() => undefined);
+  }
 
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`request failed with status ${resp.status}: ${errorText}`);
-      }
+  /**
+   * Get a single note by ID.
+   * @param noteId - The ID of the note to fetch.
+   * @returns The note.
+   */
+  async getNote(noteId: number): Promise<Note> {
+    return this.requestJson<Note>("/api/v1/note/detail", {
+      method: "POST",
+      context: `Get note ${noteId}`,
+      body: { id: noteId },
+    });
+  }
 
-      return await resp.json();
-    } catch (e) {
-      throw e;
+  /**
+   * Get several notes by ID, a few requests at a time.
+   * @param noteIds - The IDs of the notes to fetch.
+   * @returns The notes found, in the order of the IDs, and the IDs that do not exist.
+   */
+  async getNotes(noteIds: number[]): Promise<{ notes: Note[]; missing: number[] }> {
+    const ids = [...new Set(noteIds)];
+    const found = new Map<number, Note>();
+
+    for (let i = 0; i < ids.length; i += GET_NOTES_CONCURRENCY) {
+      await Promise.all(ids.slice(i, i + GET_NOTES_CONCURRENCY).map(async (id) => {
+        try {
+          found.set(id, await this.getNote(id));
+        } catch (e) {
+          if (!(e instanceof BlinkoNotFoundError)) {
+            throw e;
+          }
+        }
+      }));
     }
+
+    return {
+      notes: ids.filter((id) => found.has(id)).map((id) => found.get(id)!),
+      missing: ids.filter((id) => !found.has(id)),
+    };
+  }
+
+  /**
+   * Get daily review notes from Blinko.
+   * @returns Array of notes for daily review.
+   */
+  async getDailyReviewNotes(): Promise<Note[]> {
+    return this.requestJson<Note[]>("/api/v1/note/daily-review-list", {
+      method: "GET",
+      context: "Get daily review notes",
+    });
   }
 
   /**
@@ -155,59 +463,43 @@ export class BlinkoClient {
    * @returns The result of the operation.
    */
   async clearRecycleBin(): Promise<{ success: boolean }> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/v1/note/clear-recycle-bin`;
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-      });
-
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`request failed with status ${resp.status}: ${errorText}`);
+    const trashed: Note[] = [];
+    if (isAudited()) {
+      for await (const note of this.iterateNotes({ searchText: "", isRecycle: true })) {
+        trashed.push(note);
       }
+    }
 
-      return { success: true };
-    } catch (e) {
-      throw e;
+    await this.request("/api/v1/note/clear-recycle-bin", {
+      method: "POST",
+      context: "Clear recycle bin",
+    });
+    for (const note of trashed) {
+      recordChange({ action: "delete", noteId: note.id, before: note });
     }
+    return { success: true };
   }
 
   /**
    * Upsert a note to Blinko.
    * @param content - The content of the note.
    * @param type - 0 for flash note, 1 for normal note.
+   * @param attachments - Uploaded files to attach (see uploadFile).
    * @returns The created/updated note.
    */
-  async upsertNote({ content, type = 0 }: { content: string; type?: 0 | 1 | 2 }): Promise<Note> {
-    try {
-      if (!content) {
-        throw new Error("invalid content");
-      }
-
-      const apiUrl = `${this.baseUrl}/api/v1/note/upsert`;
-      const reqBody = { content, type };
-
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(reqBody),
-      });
-
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`request failed with status ${resp.status}: ${errorText}`);
-      }
-
-      return await resp.json();
-    } catch (e) {
-      throw e;
+  async upsertNote({ content, type = 0, attachments }: UpsertNoteParams): Promise<Note> {
+    if (!content) {
+      throw new BlinkoValidationError("invalid content");
     }
+
+    const note = await this.requestJson<Note>("/api/v1/note/upsert", {
+      method: "POST",
+      context: "Upsert note",
+      idempotent: false,
+      body: { content, type, ...(attachments?.length ? { attachments } : {}) },
+    });
+    recordChange({ action: "create", noteId: note.id });
+    return note;
   }
 
   /**
@@ -218,33 +510,23 @@ export class BlinkoClient {
    * @returns Success status.
    */
   async updateNote(noteId: number, updates: UpdateNoteParams): Promise<{ success: boolean }> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/trpc/notes.upsert?batch=1`;
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          "0": {
-            "json": {
-              id: noteId,
-              ...updates,
-            },
+    const before = await this.auditSnapshot(noteId);
+    await this.request("/api/trpc/notes.upsert?batch=1", {
+      method: "POST",
+      context: `Update note ${noteId}`,
+      body: {
+        "0": {
+          "json": {
+            id: noteId,
+            ...updates,
           },
-        }),
-      });
-
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`Failed to update note: ${resp.status}: ${errorText}`);
-      }
+        },
+      },
+    });
 
-      return { success: true };
-    } catch (e) {
-      throw e;
-    }
+    recordChange({ action: "update", noteId, before, updates });
+    this.onNoteChanged?.(noteId);
+    return { success: true };
   }
 
   /**
@@ -254,32 +536,22 @@ export class BlinkoClient {
    * @returns Success status.
    */
   async deleteNote(noteId: number): Promise<{ success: boolean }> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/trpc/notes.deleteMany?batch=1`;
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          "0": {
-            "json": {
-              ids: [noteId],
-            },
+    const before = await this.auditSnapshot(noteId);
+    await this.request("/api/trpc/notes.deleteMany?batch=1", {
+      method: "POST",
+      context: `Delete note ${noteId}`,
+      body: {
+        "0": {
+          "json": {
+            ids: [noteId],
           },
-        }),
-      });
-
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`Failed to delete note: ${resp.status}: ${errorText}`);
-      }
+        },
+      },
+    });
 
-      return { success: true };
-    } catch (e) {
-      throw e;
-    }
+    recordChange({ action: "delete", noteId, before });
+    this.onNoteChanged?.(noteId);
+    return { success: true };
   }
 
   /**
@@ -292,43 +564,116 @@ export class BlinkoClient {
     return this.updateNote(noteId, { isArchived: true });
   }
 
+  /**
+   * Move a note to the recycle bin, from where it can be restored.
+   * @param noteId - The ID of the note to trash.
+   * @returns Success status.
+   */
+  async trashNote(noteId: number): Promise<{ success: boolean }> {
+    return this.updateNote(noteId, { isRecycle: true });
+  }
+
+  /**
+   * Restore a note from the recycle bin.
+   * @param noteId - The ID of the note to restore.
+   * @returns Success status.
+   */
+  async restoreNote(noteId: number): Promise<{ success: boolean }> {
+    return this.updateNote(noteId, { isRecycle: false });
+  }
+
   /**
    * Share a note or cancel sharing.
    * @param params - Share parameters including note ID and optional password
    * @returns The result of the share operation
    */
   async shareNote(params: ShareNoteParams): Promise<ShareNoteResult> {
-    try {
-      const apiUrl = `${this.baseUrl}/api/v1/note/share`;
-      const reqBody = {
+    const before = await this.auditSnapshot(params.id);
+    const result = await this.requestJson<ShareNoteResult>("/api/v1/note/share", {
+      method: "POST",
+      context: `Share note ${params.id}`,
+      idempotent: false,
+      body: {
         id: params.id,
         isCancel: params.isCancel ?? false,
         password: params.password ?? "",
-      };
+      },
+    });
+    recordChange({ action: "share", noteId: params.id, before });
+
+    return {
+      id: result.id,
+      isShare: result.isShare,
+      sharePassword: result.sharePassword,
+      shareEncryptedUrl: result.shareEncryptedUrl,
+    };
+  }
 
-      const resp = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(reqBody),
-      });
+  /**
+   * Upload a file as a multipart form. The file is not attached to any note
+   * until the returned attachment is passed to upsertNote or updateNote.
+   * @param data - File contents.
+   * @param name - File name, including the extension.
+   * @param mimeType - MIME type of the file.
+   * @returns The uploaded file as an attachment.
+   */
+  async uploadFile(data: Uint8Array, name: string, mimeType: string): Promise<NoteAttachment> {
+    const form = new FormData();
+    form.append("file", new Blob([data], { type: mimeType }), name);
+    const result = await this.requestJson<{ path?: string; type?: string; size?: number | string }>("/api/file/upload", {
+      method: "POST",
+      context: `Upload file ${name}`,
+      form,
+    });
+    if (!result.path) {
+      throw new BlinkoApiError(`Upload file ${name}: the response has no file path: ${JSON.stringify(result).slice(0, 200)}`);
+    }
+    return { name, path: result.path, size: result.size ?? data.length, type: result.type || mimeType };
+  }
 
-      if (!resp.ok) {
-        const errorText = await resp.text();
-        throw new Error(`request failed with status ${resp.status}: ${errorText}`);
+  /**
+   * Download a file stored in Blinko, such as an attachment.
+   * @param path - Path of the file (e.g. "/api/file/abc.png"), or its full URL on this Blinko instance.
+   * @param maxBytes - Largest file size accepted.
+   * @throws BlinkoValidationError if the file is larger than maxBytes.
+   */
+  async downloadFile(path: string, maxBytes: number): Promise<DownloadedFile> {
+    let relative = path;
+    if (/^https?:\/\//i.test(path)) {
+      // Never send the API key to another host
+      const url = new URL(path);
+      if (url.origin !== new URL(this.baseUrl).origin) {
+        throw new BlinkoValidationError(`Download ${path}: the file is not on ${this.baseUrl}`);
       }
-
-      const result = await resp.json();
-      return {
-        id: result.id,
-        isShare: result.isShare,
-        sharePassword: result.sharePassword,
-        shareEncryptedUrl: result.shareEncryptedUrl,
-      };
-    } catch (e) {
-      throw e;
+      relative = `${url.pathname}${url.search}`;
     }
+    const context = `Download ${relative}`;
+    const tooLarge = (size: number) => new BlinkoValidationError(`${context}: the file is larger than the limit of ${maxBytes} bytes (${size} bytes)`);
+
+    return this.request(relative.startsWith("/") ? relative : `/${relative}`, { method: "GET", context }, async (resp) => {
+      const length = Number(resp.headers.get("Content-Length"));
+      if (length > maxBytes) {
+        await resp.body?.cancel();
+        throw tooLarge(length);
+      }
+
+      // Count while reading, since Content-Length may be missing or wrong
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      const reader = resp.body?.getReader();
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        size += value.length;
+        if (size > maxBytes) {
+          await reader.cancel();
+          throw tooLarge(size);
+        }
+        chunks.push(value);
+      }
+      return { data: Buffer.concat(chunks), contentType: resp.headers.get("Content-Type")?.split(";")[0].trim() || undefined };
+    });
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Helpers for bulk operations over many notes.
+ * Notes are selected either by an explicit ID list or by a search selector,
+ * and processed with bounded concurrency into a per-note report.
+ */
+
+import { BlinkoClient, SearchNotesParams } from "./blinko.js";
+import { hasTag, normalizeTag } from "./tags.js";
+
+export const DEFAULT_BULK_CONCURRENCY = 4;
+export const MAX_BULK_CONCURRENCY = 10;
+
+/**
+ * Default and maximum number of notes a selector selects; further matches
+ * are left out and reported.
+ */
+const DEFAULT_SELECTOR_SIZE = 100;
+const MAX_SELECTOR_SIZE = 1000;
+
+/**
+ * Search parameters selecting the notes of a bulk operation.
+ * Same fields as SearchNotesParams, plus an optional hashtag filter.
+ */
+export interface NoteSelector extends Partial<SearchNotesParams> {
+  tags?: string[];
+}
+
+export interface NoteSelection {
+  /**
+   * Distinct note IDs in selection order.
+   */
+  ids: number[];
+  /**
+   * Whether the selector matched more notes than its size, so only the first ones were selected.
+   */
+  limitReached: boolean;
+}
+
+export interface BulkFailure {
+  id: number;
+  error: string;
+}
+
+export interface BulkReport {
+  succeeded: number[];
+  failed: BulkFailure[];
+}
+
+/**
+ * Called after each processed note with the number done so far and the total.
+ */
+export type ProgressReporter = (done: number, total: number) => Promise<void> | void;
+
+/**
+ * Parse a selector from raw tool arguments.
+ * Exact text matching is the default, since AI search may match loosely
+ * related notes that a bulk operation should not touch.
+ */
+export function parseSelector(raw: unknown): NoteSelector {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Selector must be an object");
+  }
+
+  const args = raw as Record<string, unknown>;
+  const type = args.type === 0 || args.type === 1 || args.type === 2 ? args.type : -1;
+  return {
+    searchText: args.searchText ? String(args.searchText) : "",
+    size: Math.min(Number(args.size) || DEFAULT_SELECTOR_SIZE, MAX_SELECTOR_SIZE),
+    type,
+    isArchived: Boolean(args.isArchived),
+    isRecycle: Boolean(args.isRecycle),
+    isUseAiQuery: args.isUseAiQuery === true,
+    startDate: args.startDate ? String(args.startDate) : null,
+    endDate: args.endDate ? String(args.endDate) : null,
+    hasTodo: Boolean(args.hasTodo),
+    tags: Array.isArray(args.tags) ? args.tags.map((t) => normalizeTag(String(t))).filter(Boolean) : undefined,
+  };
+}
+
+/**
+ * Resolve the note IDs of a bulk operation from either an ID list or a selector.
+ * @param blinko - Blinko client used to run the selector search.
+ * @param noteIds - Explicit note IDs (raw tool argument).
+ * @param selector - Search selector (raw tool argument).
+ * @param overrides - Selector fields forced by the operation (e.g. type 2 for todos).
+ * @returns The selected note IDs. A selector pages through every match, with
+ *          the tag filter applied to each page, up to its size.
+ */
+export async function resolveNoteIds(
+  blinko: BlinkoClient,
+  noteIds: unknown,
+  selector: unknown,
+  overrides: Partial<SearchNotesParams> = {}
+): Promise<NoteSelection> {
+  if (noteIds !== undefined && selector !== undefined) {
+    throw new Error("Provide either noteIds or selector, not both");
+  }
+
+  if (noteIds !== undefined) {
+    if (!Array.isArray(noteIds) || noteIds.length === 0) {
+      throw new Error("noteIds must be a non-empty array of note IDs");
+    }
+    const ids = noteIds.map(Number);
+    const invalid = noteIds.filter((_, i) => !Number.isInteger(ids[i]) || ids[i] <= 0);
+    if (invalid.length > 0) {
+      throw new Error(`Invalid note IDs: ${invalid.join(", ")}`);
+    }
+    return { ids: [...new Set(ids)], limitReached: false };
+  }
+
+  if (selector === undefined) {
+    throw new Error("Either noteIds or selector is required");
+  }
+
+  const { tags, size = DEFAULT_SELECTOR_SIZE, page, ...params } = { ...parseSelector(selector), ...overrides };
+  const ids = new Set<number>();
+  for await (const note of blinko.iterateNotes({ ...params, searchText: params.searchText ?? "" })) {
+    if (tags?.length && !tags.every((tag) => hasTag(note.content, tag))) {
+      continue;
+    }
+    if (ids.size >= size) {
+      return { ids: [...ids], limitReached: true };
+    }
+    ids.add(note.id);
+  }
+  return { ids: [...ids], limitReached: false };
+}
+
+/**
+ * Tell the model that a selector matched more notes than it selected.
+ * @returns A notice line, or none if every match was selected.
+ */
+export function selectionNotice({ ids, limitReached }: NoteSelection): string[] {
+  return limitReached
+    ? [`The selector matches more than ${ids.length} note(s); only the first ${ids.length} were selected. Raise its size (max ${MAX_SELECTOR_SIZE}) or narrow it, then run again for the rest.`]
+    : [];
+}
+
+/**
+ * Run an action for every note ID with bounded concurrency.
+ * A failing note is recorded in the report and does not stop the others.
+ * @param ids - Note IDs to process.
+ * @param action - Operation applied to one note.
+ * @param concurrency - Maximum number of actions in flight.
+ * @param onProgress - Optional progress callback.
+ */
+export async function runBulk(
+  ids: number[],
+  action: (id: number) => Promise<unknown>,
+  concurrency: number = DEFAULT_BULK_CONCURRENCY,
+  onProgress?: ProgressReporter
+): Promise<BulkReport> {
+  const succeeded = new Set<number>();
+  const failed = new Map<number, string>();
+  const limit = Math.max(1, Math.min(Math.floor(concurrency) || 1, MAX_BULK_CONCURRENCY));
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < ids.length) {
+      const id = ids[next++];
+      try {
+        await action(id);
+        succeeded.add(id);
+      } catch (e) {
+        failed.set(id, e instanceof Error ? e.message : String(e));
+      }
+      done++;
+      await onProgress?.(done, ids.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, ids.length) }, worker));
+
+  // Report in selection order rather than completion order
+  return {
+    succeeded: ids.filter((id) => succeeded.has(id)),
+    failed: ids.filter((id) => failed.has(id)).map((id) => ({ id, error: failed.get(id)! })),
+  };
+}
+
+/**
+ * Render a bulk report as tool result content.
+ * @param action - Past-tense verb describing the operation (e.g. "archived").
+ * @param selection - The selection processed, to report a selector limit.
+ */
+export function bulkResult(action: string, { succeeded, failed }: BulkReport, selection?: NoteSelection) {
+  const total = succeeded.length + failed.length;
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Successfully ${action} ${succeeded.length} of ${total} note(s).`,
+      },
+      ...(selection ? selectionNotice(selection) : []).map((text) => ({ type: "text", text })),
+      ...succeeded.map((id) => ({
+        type: "text",
+        text: `- Note ${id}: ok`,
+      })),
+      ...failed.map((f) => ({
+        type: "text",
+        text: `- Note ${f.id}: failed: ${f.error}`,
+      })),
+    ],
+    isError: total > 0 && succeeded.length === 0,
+  };
+}
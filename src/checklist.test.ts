@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { appendChecklistItems, findChecklistItem, parseChecklist, setItemChecked } from "./checklist.js";
+
+const note = [
+  "Groceries",
+  "- [ ] Milk @due(2026-11-01)",
+  "- [x] Eggs @priority(high)",
+  "```md",
+  "- [ ] Example inside a code block",
+  "```",
+  "~~~~",
+  "```",
+  "- [ ] Still code: a shorter or different fence does not close the block",
+  "~~~~",
+  "* [ ] Bread",
+].join("\n");
+
+describe("parseChecklist", () => {
+  it("reads items with their annotations", () => {
+    assert.deepEqual(parseChecklist(note), [
+      { index: 1, line: 1, checked: false, text: "Milk", due: "2026-11-01" },
+      { index: 2, line: 2, checked: true, text: "Eggs", priority: "high" },
+      { index: 3, line: 10, checked: false, text: "Bread" },
+    ]);
+  });
+
+  it("skips lines inside fenced code blocks", () => {
+    assert.deepEqual(parseChecklist("```\n- [ ] code\n```\n- [ ] real").map((item) => item.text), ["real"]);
+  });
+});
+
+describe("setItemChecked", () => {
+  it("rewrites only the line of the item", () => {
+    const items = parseChecklist(note);
+    const content = setItemChecked(note, findChecklistItem(items, { text: "bread" }), true);
+    assert.equal(content, note.replace("* [ ] Bread", "* [x] Bread"));
+    assert.equal(setItemChecked(content, findChecklistItem(items, { index: 2 }), false), content.replace("- [x] Eggs", "- [ ] Eggs"));
+  });
+
+  it("keeps CRLF line endings", () => {
+    const content = "- [ ] One\r\n- [ ] Two\r\n";
+    assert.equal(setItemChecked(content, parseChecklist(content)[0], true), "- [x] One\r\n- [ ] Two\r\n");
+  });
+});
+
+describe("findChecklistItem", () => {
+  it("rejects ambiguous text and missing indexes", () => {
+    const items = parseChecklist("- [ ] Call Anna\n- [ ] Call Ben");
+    assert.throws(() => findChecklistItem(items, { text: "call" }), /matches 2 checklist items/);
+    assert.throws(() => findChecklistItem(items, { index: 3 }), /does not exist; the note has 2 item\(s\)/);
+  });
+});
+
+describe("appendChecklistItems", () => {
+  it("adds items after the last item with its indentation", () => {
+    assert.equal(
+      appendChecklistItems("List\n  - [ ] One\nAfter", [{ text: "Two", due: "2026-01-02", priority: "low" }]),
+      "List\n  - [ ] One\n  - [ ] Two @due(2026-01-02) @priority(low)\nAfter"
+    );
+  });
+
+  it("adds a list at the end of a note without items", () => {
+    assert.equal(appendChecklistItems("Text\n\n", [{ text: "One" }]), "Text\n\n- [ ] One");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Markdown checklist items ("- [ ] task", "- [x] done") inside note content.
+ *
+ * Items may carry annotations, kept as part of the line:
+ * - "@due(2026-11-01)" for a due date
+ * - "@priority(high)" for a priority (high, medium or low)
+ *
+ * Edits rewrite only the affected line and leave the rest of the content as is.
+ * Lines inside fenced code blocks are not items.
+ */
+
+import { codeBlockLines } from "./patch.js";
+
+const ITEM_PATTERN = /^(\s*[-*+] \[)([ xX])(\]\s+)(.*?)(\r?)$/;
+const DUE_PATTERN = /\s*@due\(([^)]*)\)/i;
+const PRIORITY_PATTERN = /\s*@priority\((high|medium|low)\)/i;
+
+export const PRIORITIES = ["high", "medium", "low"] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+export interface ChecklistItem {
+  /**
+   * 1-based position among the checklist items of the note.
+   */
+  index: number;
+  /**
+   * 0-based line number in the note content.
+   */
+  line: number;
+  checked: boolean;
+  /**
+   * Item text without the checkbox and annotations.
+   */
+  text: string;
+  due?: string;
+  priority?: Priority;
+}
+
+export interface NewChecklistItem {
+  text: string;
+  due?: string;
+  priority?: Priority;
+}
+
+/**
+ * Parse the checklist items of a note.
+ */
+export function parseChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  const lines = content.split("\n");
+  const inCode = codeBlockLines(lines);
+  lines.forEach((line, lineNumber) => {
+    const match = inCode[lineNumber] ? null : ITEM_PATTERN.exec(line);
+    if (!match) {
+      return;
+    }
+    const body = match[4];
+    const due = DUE_PATTERN.exec(body)?.[1].trim();
+    const priority = PRIORITY_PATTERN.exec(body)?.[1].toLowerCase() as Priority | undefined;
+    items.push({
+      index: items.length + 1,
+      line: lineNumber,
+      checked: match[2] !== " ",
+      text: body.replace(DUE_PATTERN, "").replace(PRIORITY_PATTERN, "").trim(),
+      ...(due ? { due } : {}),
+      ...(priority ? { priority } : {}),
+    });
+  });
+  return items;
+}
+
+/**
+ * Find one checklist item by 1-based index or by text.
+ * Text matches case-insensitively, exactly first and then as a substring;
+ * a substring matching several items is rejected as ambiguous.
+ */
+export function findChecklistItem(items: ChecklistItem[], { index, text }: { index?: number; text?: string }): ChecklistItem {
+  if (index !== undefined) {
+    const item = items[index - 1];
+    if (!item) {
+      throw new Error(`Checklist item ${index} does not exist; the note has ${items.length} item(s)`);
+    }
+    return item;
+  }
+
+  const wanted = (text ?? "").trim().toLowerCase();
+  if (!wanted) {
+    throw new Error("Either index or text is required");
+  }
+  const exact = items.filter((item) => item.text.toLowerCase() === wanted);
+  const matches = exact.length ? exact : items.filter((item) => item.text.toLowerCase().includes(wanted));
+  if (matches.length === 0) {
+    throw new Error(`No checklist item matches "${text}"`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${text}" matches ${matches.length} checklist items (${matches.map((item) => `#${item.index} "${item.text}"`).join(", ")}); pass index instead`);
+  }
+  return matches[0];
+}
+
+/**
+ * Check or uncheck one checklist item.
+ * @returns The content with only the item's line rewritten.
+ */
+export function setItemChecked(content: string, item: ChecklistItem, checked: boolean): string {
+  const lines = content.split("\n");
+  lines[item.line] = lines[item.line].replace(ITEM_PATTERN, (_, open, __, close, body, cr) => `${open}${checked ? "x" : " "}${close}${body}${cr}`);
+  return lines.join("\n");
+}
+
+/**
+ * Validate a due date annotation value (YYYY-MM-DD).
+ */
+function checkDueDate(due: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(due) || isNaN(Date.parse(due))) {
+    throw new Error(`Invalid due date: ${due}. Use YYYY-MM-DD.`);
+  }
+  return due;
+}
+
+/**
+ * Render a new checklist item line, with annotations.
+ */
+export function formatChecklistLine({ text, due, priority }: NewChecklistItem): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (!clean) {
+    throw new Error("Checklist item text is required");
+  }
+  if (priority !== undefined && !PRIORITIES.includes(priority)) {
+    throw new Error(`Invalid priority: ${priority}. Use ${PRIORITIES.join(", ")}.`);
+  }
+  return `- [ ] ${clean}${due ? ` @due(${checkDueDate(due)})` : ""}${priority ? ` @priority(${priority})` : ""}`;
+}
+
+/**
+ * Append checklist items after the last existing item, or at the end of the
+ * content if it has none. Other lines are left untouched.
+ */
+export function appendChecklistItems(content: string, items: NewChecklistItem[]): string {
+  const newLines = items.map(formatChecklistLine);
+  const existing = parseChecklist(content);
+  const lines = content.split("\n");
+
+  if (existing.length === 0) {
+    const trimmed = content.replace(/\s+$/, "");
+    return trimmed ? `${trimmed}\n\n${newLines.join("\n")}` : newLines.join("\n");
+  }
+
+  // Keep the indentation of the list rather than nesting below the last item
+  const last = existing[existing.length - 1].line;
+  const indent = /^\s*/.exec(lines[existing[0].line])?.[0] ?? "";
+  lines.splice(last + 1, 0, ...newLines.map((line) => `${indent}${line}`));
+  return lines.join("\n");
+}
+
+/**
+ * Render an item for tool output, e.g. "#2 [x] Buy milk (due 2026-11-01, high)".
+ */
+export function describeChecklistItem(item: ChecklistItem): string {
+  const details = [item.due && `due ${item.due}`, item.priority].filter(Boolean);
+  return `#${item.index} [${item.checked ? "x" : " "}] ${item.text}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * Order items by due date (undated last), then by priority.
+ */
+export function compareChecklistItems(a: ChecklistItem, b: ChecklistItem): number {
+  const due = (a.due ?? "9999").localeCompare(b.due ?? "9999");
+  const rank = (item: ChecklistItem) => (item.priority ? PRIORITIES.indexOf(item.priority) : PRIORITIES.length);
+  return due || rank(a) - rank(b);
+}
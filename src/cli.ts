@@ -0,0 +1,140 @@
+/**
+ * One-shot CLI subcommands, run instead of starting the MCP server.
+ * Examples:
+ *   mcp-server-blinko-extended export --dir=./vault --format=markdown
+ *   mcp-server-blinko-extended import --source=./vault --dry_run
+ *   mcp-server-blinko-extended sync --mirror_dir=./mirror
+ *   mcp-server-blinko-extended generate --templates_dir=./templates
+ * With a config file, --instance=<name> selects the instance a command runs against.
+ */
+
+import { BlinkoClient } from "./blinko.js";
+import { exportNotes, parseExportSelector } from "./export.js";
+import { formatImportSummary, importNotes } from "./import.js";
+import { DEFAULT_INSTANCE } from "./instances.js";
+import { ConflictResolution, formatSyncResult, openMirror } from "./mirror.js";
+import { DEFAULT_RECURRENCE_STATE, formatGenerationReport, generateDueTodos, RecurrenceState } from "./recurrence.js";
+import { BlinkoConfig } from "./server.js";
+import { TemplateLibrary } from "./templates.js";
+
+export type CliArgs = Record<string, string | undefined>;
+
+/**
+ * Check whether a boolean CLI flag is set. A bare flag (e.g. --archived) counts as true.
+ */
+function isFlagSet(args: CliArgs, name: string): boolean {
+  return name in args && /^(1|true|yes|on)$/i.test(args[name] ?? "true");
+}
+
+/**
+ * Export notes to a local directory.
+ * Options: --dir, --format=markdown|json, --type, --archived, --recycle,
+ * --start_date, --end_date, --tag
+ */
+async function runExport(blinko: BlinkoClient, args: CliArgs): Promise<void> {
+  const format = args.format ?? "markdown";
+  if (format !== "markdown" && format !== "json") {
+    throw new Error(`Unknown export format: ${format}. Use "markdown" or "json".`);
+  }
+
+  const summary = await exportNotes(blinko, {
+    directory: args.dir ?? "",
+    format,
+    selector: parseExportSelector({
+      type: args.type,
+      isArchived: isFlagSet(args, "archived"),
+      isRecycle: isFlagSet(args, "recycle"),
+      startDate: args.start_date,
+      endDate: args.end_date,
+      tag: args.tag,
+    }),
+  });
+  console.log(`Exported ${summary.total} note(s) to ${summary.path}: ${summary.written} written, ${summary.unchanged} unchanged.`);
+}
+
+/**
+ * Import notes from a Markdown folder or JSON backup.
+ * Options: --source, --dry_run, --timestamps=none|content, --mapping_file, --default_type
+ */
+async function runImport(blinko: BlinkoClient, args: CliArgs): Promise<void> {
+  const defaultType = Number(args.default_type);
+  const summary = await importNotes(blinko, {
+    source: args.source ?? "",
+    dryRun: isFlagSet(args, "dry_run"),
+    timestamps: args.timestamps === "content" ? "content" : "none",
+    mappingFile: args.mapping_file,
+    defaultType: defaultType === 0 || defaultType === 1 || defaultType === 2 ? defaultType : undefined,
+  }, (done, total) => {
+    if (process.stderr.isTTY) {
+      process.stderr.write(`\r${done}/${total}${done === total ? "\n" : ""}`);
+    }
+  });
+  console.log(formatImportSummary(summary));
+}
+
+/**
+ * Replay queued offline changes and sync the local mirror.
+ * Options: --resolve_conflicts=keep_remote|overwrite
+ */
+async function runSync(blinko: BlinkoClient, args: CliArgs, mirrorDir: string | undefined): Promise<void> {
+  if (!mirrorDir) {
+    throw new Error("The local mirror is not enabled. Set BLINKO_MIRROR_DIR or --mirror_dir.");
+  }
+  const resolution = args.resolve_conflicts;
+  if (resolution !== undefined && resolution !== "keep_remote" && resolution !== "overwrite") {
+    throw new Error(`Unknown conflict resolution: ${resolution}. Use "keep_remote" or "overwrite".`);
+  }
+
+  const mirror = openMirror(mirrorDir);
+  const replay = await mirror.replay(blinko, resolution as ConflictResolution | undefined);
+  const sync = await mirror.sync(blinko);
+  console.log(formatSyncResult(replay, sync));
+}
+
+/**
+ * Create the due notes of the recurring templates, e.g. from a daily cron job.
+ * Exits with status 1 if an occurrence failed, so cron reports it.
+ * Options: --date, --lookback_days, --template, --dry_run
+ */
+async function runGenerate(blinko: BlinkoClient, args: CliArgs, config: BlinkoConfig): Promise<void> {
+  const dryRun = isFlagSet(args, "dry_run");
+  const report = await generateDueTodos(
+    blinko,
+    new TemplateLibrary(config.templatesDir, config.display?.timeZone),
+    new RecurrenceState(config.recurrenceState ?? DEFAULT_RECURRENCE_STATE),
+    {
+      instance: config.instanceName || DEFAULT_INSTANCE,
+      date: args.date,
+      lookbackDays: args.lookback_days !== undefined ? Number(args.lookback_days) : undefined,
+      template: args.template,
+      dryRun,
+    }
+  );
+  console.log(formatGenerationReport(report, dryRun));
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Run a CLI subcommand.
+ * @param command - Subcommand name.
+ * @param args - Parsed --key=value arguments.
+ * @param config - Blinko connection settings.
+ */
+export async function runCommand(command: string, args: CliArgs, config: BlinkoConfig): Promise<void> {
+  const blinko = new BlinkoClient(config);
+
+  switch (command) {
+    case "export":
+      return runExport(blinko, args);
+    case "import":
+      return runImport(blinko, args);
+    case "sync":
+      return runSync(blinko, args, config.mirrorDir);
+    case "generate":
+      return runGenerate(blinko, args, config);
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
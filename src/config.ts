@@ -0,0 +1,160 @@
+/**
+ * Config file with named Blinko instance profiles, in JSON or YAML.
+ *
+ * ```yaml
+ * default: work
+ * instances:
+ *   work:
+ *     domain: https://blinko.work.example.com
+ *     apiKeyEnv: BLINKO_WORK_API_KEY
+ *   personal:
+ *     domain: https://blinko.example.com
+ *     apiKeyFile: ~/.config/blinko/personal.key
+ *     mirrorDir: ~/.cache/blinko/personal
+ * ```
+ *
+ * API keys can be given inline (apiKey), read from an environment variable
+ * (apiKeyEnv) or from a file (apiKeyFile). Relative paths are resolved
+ * against the directory of the config file.
+ */
+
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { InstanceConfig } from "./server.js";
+
+export interface ConfigFile {
+  /**
+   * Name of the profile used when no instance is given.
+   */
+  defaultInstance: string;
+  instances: Record<string, InstanceConfig>;
+}
+
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Resolve a path from the config file, expanding "~" to the home directory.
+ */
+function resolvePath(base: string, path: string): string {
+  if (path === "~" || path.startsWith("~/")) {
+    return resolve(homedir(), path.slice(2));
+  }
+  return resolve(base, path);
+}
+
+function optionalString(profile: Record<string, unknown>, key: string, name: string): string | undefined {
+  const value = profile[key];
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Instance "${name}": ${key} must be a string`);
+  }
+  return value;
+}
+
+function optionalNumber(profile: Record<string, unknown>, key: string, name: string): number | undefined {
+  const value = profile[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Instance "${name}": ${key} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Read the API key of a profile from apiKey, apiKeyEnv or apiKeyFile.
+ */
+function readApiKey(profile: Record<string, unknown>, name: string, base: string): string {
+  const inline = optionalString(profile, "apiKey", name);
+  const env = optionalString(profile, "apiKeyEnv", name);
+  const file = optionalString(profile, "apiKeyFile", name);
+  if ([inline, env, file].filter((value) => value !== undefined).length > 1) {
+    throw new Error(`Instance "${name}": use only one of apiKey, apiKeyEnv and apiKeyFile`);
+  }
+
+  if (env) {
+    const value = process.env[env];
+    if (!value) {
+      throw new Error(`Instance "${name}": environment variable ${env} is not set`);
+    }
+    return value.trim();
+  }
+  if (file) {
+    const path = resolvePath(base, file);
+    try {
+      return readFileSync(path, "utf8").trim();
+    } catch (e) {
+      throw new Error(`Instance "${name}": could not read API key file ${path}: ${(e as Error).message}`);
+    }
+  }
+  return inline ?? "";
+}
+
+/**
+ * Parse one instance profile.
+ * @param defaults - Settings applied when the profile does not set them.
+ */
+function parseInstance(name: string, raw: unknown, base: string, defaults: Partial<InstanceConfig>): InstanceConfig {
+  if (!INSTANCE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid instance name "${name}": use letters, digits, "-" and "_"`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Instance "${name}" must be an object`);
+  }
+
+  const profile = raw as Record<string, unknown>;
+  const domain = optionalString(profile, "domain", name);
+  if (!domain) {
+    throw new Error(`Instance "${name}": domain is required`);
+  }
+  const mirrorDir = optionalString(profile, "mirrorDir", name);
+  const mirrorSyncInterval = optionalNumber(profile, "mirrorSyncInterval", name);
+  return {
+    domain,
+    apiKey: readApiKey(profile, name, base),
+    timeoutMs: optionalNumber(profile, "timeoutMs", name) ?? defaults.timeoutMs,
+    maxRetries: optionalNumber(profile, "maxRetries", name) ?? defaults.maxRetries,
+    mirrorDir: mirrorDir ? resolvePath(base, mirrorDir) : undefined,
+    mirrorSyncIntervalMs: mirrorSyncInterval === undefined ? defaults.mirrorSyncIntervalMs : mirrorSyncInterval * 1000,
+  };
+}
+
+/**
+ * Load a config file. Files ending in .json are read as JSON, anything else
+ * as YAML (which also accepts JSON).
+ * @param path - Path of the config file.
+ * @param defaults - Settings applied to profiles that do not set them.
+ */
+export function loadConfigFile(path: string, defaults: Partial<InstanceConfig> = {}): ConfigFile {
+  const file = resolvePath(process.cwd(), path);
+  let data: unknown;
+  try {
+    const text = readFileSync(file, "utf8");
+    data = file.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new Error(`Could not read config file ${file}: ${(e as Error).message}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Config file ${file} must contain an object`);
+  }
+
+  const { default: defaultInstance, instances } = data as Record<string, unknown>;
+  if (!instances || typeof instances !== "object" || Array.isArray(instances) || Object.keys(instances).length === 0) {
+    throw new Error(`Config file ${file} must define at least one instance under "instances"`);
+  }
+
+  const base = dirname(file);
+  const parsed = Object.fromEntries(
+    Object.entries(instances).map(([name, raw]) => [name, parseInstance(name, raw, base, defaults)])
+  );
+  const names = Object.keys(parsed);
+  if (defaultInstance !== undefined && !(String(defaultInstance) in parsed)) {
+    throw new Error(`Default instance "${defaultInstance}" is not defined in ${file} (instances: ${names.join(", ")})`);
+  }
+  return { defaultInstance: defaultInstance === undefined ? names[0] : String(defaultInstance), instances: parsed };
+}
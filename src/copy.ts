@@ -0,0 +1,84 @@
+/**
+ * Copy notes between Blinko instances.
+ *
+ * Copies keep the content, type and pinned/archived flags of the originals.
+ * Attachments, comments and share settings stay behind. Notes whose content
+ * already exists on the target are skipped, as in imports.
+ */
+
+import { BlinkoClient } from "./blinko.js";
+import { BulkFailure, ProgressReporter } from "./bulk.js";
+import { contentHash } from "./import.js";
+
+export interface CopyReport {
+  copied: { sourceId: number; targetId: number }[];
+  skipped: { sourceId: number; existingId: number }[];
+  failed: BulkFailure[];
+}
+
+/**
+ * Copy notes from one instance to another, one at a time.
+ * @param source - Client of the instance the notes are read from.
+ * @param target - Client of the instance the copies are created on.
+ * @param noteIds - IDs of the notes on the source instance.
+ * @param onProgress - Optional progress callback.
+ */
+export async function copyNotes(
+  source: BlinkoClient,
+  target: BlinkoClient,
+  noteIds: number[],
+  onProgress?: ProgressReporter
+): Promise<CopyReport> {
+  const { notes, missing } = await source.getNotes(noteIds);
+  const report: CopyReport = {
+    copied: [],
+    skipped: [],
+    failed: missing.map((id) => ({ id, error: "note not found" })),
+  };
+
+  // Hash every note on the target, active and archived, for dedupe
+  const existing = new Map<string, number>();
+  for (const isArchived of [false, true]) {
+    for await (const note of target.iterateNotes({ searchText: "", isArchived })) {
+      existing.set(contentHash(note.content), note.id);
+    }
+  }
+
+  let done = 0;
+  for (const note of notes) {
+    const hash = contentHash(note.content);
+    const existingId = existing.get(hash);
+    if (existingId !== undefined) {
+      report.skipped.push({ sourceId: note.id, existingId });
+    } else {
+      try {
+        const created = await target.upsertNote({ content: note.content, type: note.type as 0 | 1 | 2 });
+        existing.set(hash, created.id);
+        report.copied.push({ sourceId: note.id, targetId: created.id });
+
+        if (note.isTop || note.isArchived) {
+          await target.updateNote(created.id, { isTop: note.isTop, isArchived: note.isArchived }).catch((e) => {
+            report.failed.push({ id: note.id, error: `copied as note ${created.id}, but setting flags failed: ${e.message}` });
+          });
+        }
+      } catch (e) {
+        report.failed.push({ id: note.id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    await onProgress?.(++done, notes.length);
+  }
+
+  return report;
+}
+
+/**
+ * Render a copy report as text.
+ */
+export function formatCopyReport(report: CopyReport, from: string, to: string): string {
+  return [
+    `Copied ${report.copied.length} note(s) from ${from} to ${to}, skipped ${report.skipped.length} already there, ${report.failed.length} failed.`,
+    ...report.copied.map((c) => `- ${c.sourceId} -> ${c.targetId}`),
+    ...report.skipped.map((s) => `- ${s.sourceId} already exists as ${s.existingId}`),
+    ...report.failed.map((f) => `- ${f.id} failed: ${f.error}`),
+  ].join("\n");
+}
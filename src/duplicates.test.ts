@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Note } from "./blinko.js";
+import { clusterDuplicates, findSimilar, mergeContents, normalizeContent } from "./duplicates.js";
+
+function note(id: number, content: string, createdAt = `2024-01-0${id}T00:00:00.000Z`): Note {
+  return { id, content, createdAt } as Note;
+}
+
+describe("normalizeContent", () => {
+  it("ignores case, punctuation and Markdown syntax but keeps hashtags", () => {
+    assert.equal(normalizeContent("**Buy** milk,  eggs!\n- #shopping"), "buy milk eggs #shopping");
+  });
+});
+
+describe("findSimilar", () => {
+  it("scores equal normalized content as 1", () => {
+    const [match] = findSimilar("Buy milk and eggs today", [note(1, "buy milk, and EGGS today!")], 0.8);
+    assert.equal(match.similarity, 1);
+  });
+
+  it("scores by shared three-word shingles", () => {
+    // 4 shingles each, 3 shared: 3 / 5
+    const matches = findSimilar("one two three four five six", [note(1, "one two three four five seven")], 0.5);
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].similarity, 3 / 5);
+    assert.deepEqual(findSimilar("one two three four five six", [note(1, "one two three four five seven")], 0.8), []);
+  });
+
+  it("only matches short notes on equal content", () => {
+    assert.deepEqual(findSimilar("buy milk", [note(1, "buy eggs")], 0.1), []);
+    assert.equal(findSimilar("Buy milk", [note(1, "buy milk.")], 0.1).length, 1);
+  });
+
+  it("sorts matches by similarity", () => {
+    const matches = findSimilar("a b c d e f", [note(1, "a b c d e x"), note(2, "a b c d e f")], 0.5);
+    assert.deepEqual(matches.map((m) => m.note.id), [2, 1]);
+  });
+});
+
+describe("clusterDuplicates", () => {
+  it("groups chains of similar notes, oldest first", () => {
+    const notes = [
+      note(3, "alpha beta gamma delta epsilon zeta"),
+      note(1, "alpha beta gamma delta epsilon zeta"),
+      note(2, "something else entirely different here"),
+    ];
+    const clusters = clusterDuplicates(notes, 0.8);
+    assert.equal(clusters.length, 1);
+    assert.deepEqual(clusters[0].matches.map((m) => m.note.id), [1, 3]);
+  });
+});
+
+describe("mergeContents", () => {
+  it("appends only the lines the base does not have", () => {
+    assert.equal(mergeContents("Milk\nEggs", ["milk\nBread", "Bread\nButter"]), "Milk\nEggs\n\nBread\n\nButter");
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Near-duplicate detection for notes.
+ *
+ * Content is normalized (case, punctuation and whitespace are ignored) and
+ * compared by the Jaccard similarity of its word shingles, i.e. the share of
+ * three-word sequences two notes have in common. Notes of fewer than three
+ * words only match when their normalized content is equal.
+ *
+ * New notes are compared with the most recent notes, whose fingerprints are
+ * fetched once per tool call.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { BlinkoClient, Note } from "./blinko.js";
+
+export const DUPLICATE_MODES = ["off", "warn", "skip", "merge"] as const;
+
+/**
+ * What to do when a new note is a near-duplicate of an existing one:
+ * nothing, create it with a warning, skip creating it, or merge it into the
+ * existing note.
+ */
+export type DuplicateMode = (typeof DUPLICATE_MODES)[number];
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+/**
+ * Default and largest number of notes find_blinko_duplicates compares.
+ */
+export const DEFAULT_DUPLICATE_SCAN = 1000;
+export const MAX_DUPLICATE_SCAN = 5000;
+
+/**
+ * Number of recent notes a new note is compared with.
+ */
+const RECENT_NOTES = 200;
+
+const SHINGLE_SIZE = 3;
+
+export interface DuplicateOptions {
+  /**
+   * Check new notes for near-duplicates (default: "off").
+   */
+  mode?: DuplicateMode;
+  /**
+   * Similarity from 0 to 1 above which notes count as duplicates (default: 0.8).
+   */
+  threshold?: number;
+}
+
+export interface DuplicateMatch {
+  note: Note;
+  /**
+   * Jaccard similarity from 0 to 1; 1 for equal normalized content.
+   */
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  /**
+   * Notes of the cluster, oldest first, with their similarity to the oldest.
+   */
+  matches: DuplicateMatch[];
+}
+
+interface Fingerprint {
+  note: Note;
+  hash: string;
+  shingles: Set<string>;
+}
+
+/**
+ * Fingerprints of recent notes per client, cached for the current tool call.
+ */
+export const duplicateContext = new AsyncLocalStorage<Map<BlinkoClient, Promise<Fingerprint[]>>>();
+
+/**
+ * Normalize content for comparison: lowercase words and numbers, without
+ * punctuation or Markdown syntax. Hashtags are kept.
+ */
+export function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/[^\p{L}\p{N}#]+/gu, " ").trim();
+}
+
+function fingerprint(note: Note): Fingerprint {
+  const normalized = normalizeContent(note.content);
+  const words = normalized.split(" ").filter(Boolean);
+  const shingles = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    shingles.add(normalized);
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return { note, hash: createHash("sha256").update(normalized).digest("hex"), shingles };
+}
+
+function similarity(a: Fingerprint, b: Fingerprint): number {
+  if (a.hash === b.hash) {
+    return 1;
+  }
+  const [small, large] = a.shingles.size <= b.shingles.size ? [a.shingles, b.shingles] : [b.shingles, a.shingles];
+  let shared = 0;
+  for (const shingle of small) {
+    if (large.has(shingle)) {
+      shared++;
+    }
+  }
+  return shared / (small.size + large.size - shared);
+}
+
+/**
+ * Parse a duplicate check mode.
+ * @throws If the value is not a mode.
+ */
+export function parseDuplicateMode(value: unknown): DuplicateMode {
+  const mode = String(value).toLowerCase();
+  if (!(DUPLICATE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid duplicate check mode: ${value}. Use ${DUPLICATE_MODES.join(", ")}.`);
+  }
+  return mode as DuplicateMode;
+}
+
+/**
+ * Parse a similarity threshold between 0 (exclusive) and 1.
+ */
+export function parseThreshold(value: unknown, fallback: number): number {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const threshold = Number(value);
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`Invalid similarity threshold: ${value}. Use a number above 0 and at most 1, e.g. 0.8.`);
+  }
+  return threshold;
+}
+
+/**
+ * Find the notes similar to some content, most similar first.
+ */
+export function findSimilar(content: string, candidates: Note[], threshold: number): DuplicateMatch[] {
+  return similarTo(content, candidates.map(fingerprint), threshold);
+}
+
+function similarTo(content: string, candidates: Fingerprint[], threshold: number): DuplicateMatch[] {
+  const target = fingerprint({ content } as Note);
+  return candidates
+    .map((print) => ({ note: print.note, similarity: similarity(target, print) }))
+    .filter((match) => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Group notes into clusters of near-duplicates. Two notes share a cluster if
+ * a chain of notes, each similar enough to the next, connects them.
+ * @returns Clusters of two or more notes, largest first.
+ */
+export function clusterDuplicates(notes: Note[], threshold: number): DuplicateCluster[] {
+  // Sorted by size, so the comparisons can stop once sizes differ too much to reach the threshold
+  const prints = notes.map(fingerprint).sort((a, b) => a.shingles.size - b.shingles.size);
+  const parent = prints.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < prints.length; i++) {
+    for (let j = i + 1; j < prints.length; j++) {
+      if (prints[i].shingles.size < threshold * prints[j].shingles.size) {
+        break;
+      }
+      if (similarity(prints[i], prints[j]) >= threshold) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Fingerprint[]>();
+  prints.forEach((print, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), print]));
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const [oldest, ...rest] = group.sort((a, b) => Date.parse(a.note.createdAt) - Date.parse(b.note.createdAt));
+      return {
+        matches: [{ note: oldest.note, similarity: 1 }, ...rest.map((print) => ({ note: print.note, similarity: similarity(oldest, print) }))],
+      };
+    })
+    .sort((a, b) => b.matches.length - a.matches.length);
+}
+
+/**
+ * Combine note contents: the lines of the other contents that the base does
+ * not already have are appended to it, one block per content.
+ */
+export function mergeContents(base: string, others: string[]): string {
+  const seen = new Set(base.split("\n").map(normalizeContent).filter(Boolean));
+  let merged = base;
+  for (const other of others) {
+    const lines = other.split("\n").filter((line) => {
+      const normalized = normalizeContent(line);
+      if (!normalized || seen.has(normalized)) {
+        return false;
+      }
+      seen.add(normalized);
+      return true;
+    });
+    if (lines.length > 0) {
+      merged = `${merged.replace(/\s+$/, "")}\n\n${lines.join("\n")}`;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge notes into one: the content of the others is merged into the kept
+ * note, then the others are archived.
+ * @returns The merged content and the IDs of the archived notes.
+ */
+export async function mergeNotes(blinko: BlinkoClient, keep: Note, others: Note[]): Promise<{ content: string; archived: number[] }> {
+  const content = mergeContents(keep.content, others.map((note) => note.content));
+  if (content !== keep.content) {
+    await blinko.updateNote(keep.id, { content });
+  }
+  const archived: number[] = [];
+  for (const note of others) {
+    if (!note.isArchived) {
+      await blinko.archiveNote(note.id);
+    }
+    archived.push(note.id);
+  }
+  return { content, archived };
+}
+
+export class DuplicateChecker {
+  readonly mode: DuplicateMode;
+  readonly threshold: number;
+
+  /**
+   * @param options - Check mode and similarity threshold.
+   * @throws If the mode or threshold is invalid.
+   */
+  constructor({ mode = "off", threshold }: DuplicateOptions = {}) {
+    this.mode = parseDuplicateMode(mode);
+    this.threshold = parseThreshold(threshold, DEFAULT_DUPLICATE_THRESHOLD);
+  }
+
+  /**
+   * Find recent notes similar to the content of a new note, most similar first.
+   */
+  async check(blinko: BlinkoClient, content: string): Promise<DuplicateMatch[]> {
+    const cache = duplicateContext.getStore();
+    let recent = cache?.get(blinko);
+    if (!recent) {
+      recent = blinko.searchNotes({ searchText: "", size: RECENT_NOTES, isUseAiQuery: false }).then((notes) => notes.map(fingerprint));
+      cache?.set(blinko, recent);
+      // A failed fetch is not cached, so a later check in the same call tries again
+      recent.catch(() => cache?.delete(blinko));
+    }
+    return similarTo(content, await recent, this.threshold);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Typed errors raised by the Blinko client.
+ * Every failure of a Blinko API call is a BlinkoApiError; the subclasses tell
+ * callers what went wrong without parsing status codes or messages.
+ */
+
+export class BlinkoApiError extends Error {
+  /**
+   * @param message - Human-readable description of the failure.
+   * @param status - HTTP status code, if a response was received.
+   * @param body - Response body text, if any.
+   */
+  constructor(message: string, readonly status?: number, readonly body?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission (401/403).
+ */
+export class BlinkoAuthError extends BlinkoApiError {}
+
+/**
+ * The requested note or endpoint does not exist (404).
+ */
+export class BlinkoNotFoundError extends BlinkoApiError {}
+
+/**
+ * The request was rejected as invalid, either locally or by the server (400/422).
+ */
+export class BlinkoValidationError extends BlinkoApiError {}
+
+/**
+ * Too many requests (429), still failing after the configured retries.
+ */
+export class BlinkoRateLimitError extends BlinkoApiError {
+  /**
+   * @param retryAfterMs - Delay requested by the server's Retry-After header, if any.
+   */
+  constructor(message: string, status: number, body: string, readonly retryAfterMs?: number) {
+    super(message, status, body);
+  }
+}
+
+/**
+ * The server failed (5xx), still failing after the configured retries.
+ */
+export class BlinkoServerError extends BlinkoApiError {}
+
+/**
+ * The server could not be reached or did not answer before the timeout.
+ */
+export class BlinkoNetworkError extends BlinkoApiError {
+  /**
+   * @param timedOut - Whether the request was aborted by the client timeout.
+   * @param maybeApplied - Whether a change the request makes may have been applied anyway,
+   *   because the request may have reached the server before the connection failed.
+   */
+  constructor(message: string, readonly timedOut: boolean, readonly maybeApplied = false) {
+    super(message);
+  }
+}
+
+/**
+ * The note changed after the caller read it, so an edit based on the old
+ * content was refused (a failed expectedUpdatedAt precondition).
+ */
+export class BlinkoConflictError extends BlinkoApiError {
+  /**
+   * @param updatedAt - Current updatedAt of the note.
+   */
+  constructor(message: string, readonly updatedAt: string) {
+    super(message);
+  }
+}
+
+/**
+ * Map an unsuccessful HTTP response to the matching error class.
+ * @param status - HTTP status code.
+ * @param body - Response body text.
+ * @param context - Short description of the failed operation.
+ * @param retryAfterMs - Parsed Retry-After delay, if any.
+ */
+export function errorFromResponse(status: number, body: string, context: string, retryAfterMs?: number): BlinkoApiError {
+  const message = `${context}: request failed with status ${status}: ${body}`;
+  if (status === 401 || status === 403) {
+    return new BlinkoAuthError(message, status, body);
+  }
+  if (status === 404) {
+    return new BlinkoNotFoundError(message, status, body);
+  }
+  if (status === 429) {
+    return new BlinkoRateLimitError(message, status, body, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new BlinkoServerError(message, status, body);
+  }
+  return new BlinkoValidationError(message, status, body);
+}
@@ -0,0 +1,216 @@
+/**
+ * Export notes to a local directory, either as a Markdown vault (one file per
+ * note with YAML front matter) or as a single JSON backup.
+ *
+ * Exports are incremental: re-exporting into the same directory only writes
+ * notes whose updatedAt changed since the previous export.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { BlinkoClient, Note, SearchNotesParams } from "./blinko.js";
+import { extractTags, hasTag, normalizeTag } from "./tags.js";
+
+export type ExportFormat = "markdown" | "json";
+
+/**
+ * Selects the notes to export. Unset fields do not filter.
+ */
+export interface ExportSelector {
+  type?: -1 | 0 | 1 | 2;
+  isArchived?: boolean;
+  isRecycle?: boolean;
+  startDate?: string | null;
+  endDate?: string | null;
+  tag?: string;
+}
+
+export interface ExportOptions {
+  directory: string;
+  format: ExportFormat;
+  selector?: ExportSelector;
+}
+
+export interface ExportSummary {
+  path: string;
+  total: number;
+  written: number;
+  unchanged: number;
+}
+
+/**
+ * Manifest kept next to a Markdown export to make re-exports incremental.
+ */
+export const MANIFEST_FILE = ".blinko-export.json";
+export const BACKUP_FILE = "blinko-backup.json";
+
+interface Manifest {
+  version: 1;
+  notes: Record<string, { file: string; updatedAt: string }>;
+}
+
+export interface Backup {
+  version: 1;
+  exportedAt: string;
+  notes: Note[];
+}
+
+/**
+ * Parse an export selector from raw tool arguments.
+ */
+export function parseExportSelector(args: Record<string, unknown>): ExportSelector {
+  const type = Number(args.type);
+  return {
+    type: type === 0 || type === 1 || type === 2 ? type : -1,
+    isArchived: args.isArchived === true,
+    isRecycle: args.isRecycle === true,
+    startDate: args.startDate ? String(args.startDate) : null,
+    endDate: args.endDate ? String(args.endDate) : null,
+    tag: args.tag ? String(args.tag) : undefined,
+  };
+}
+
+/**
+ * Build a file-system safe slug from the first line of a note that has text
+ * besides hashtags, e.g. "implement-feature-x" for "#claude\n\nImplement feature X".
+ */
+function slugify(content: string): string {
+  const title = content
+    .split("\n")
+    .map((line) => line.replace(/^#+\s+/, "").replace(/(^|\s)#[^\s#]+/gu, " ").trim())
+    .find(Boolean) ?? "";
+  return title
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50)
+    .replace(/-+$/, "")
+    .toLowerCase();
+}
+
+/**
+ * Get the Markdown file name of a note: "<id>-<slug>.md", or "<id>.md".
+ */
+export function noteFileName(note: Note): string {
+  const slug = slugify(note.content);
+  return slug ? `${note.id}-${slug}.md` : `${note.id}.md`;
+}
+
+/**
+ * Render a note as Markdown with YAML front matter.
+ * Strings are written as JSON strings, which are valid YAML double-quoted scalars.
+ */
+export function renderMarkdown(note: Note): string {
+  const tags = extractTags(note.content);
+  const frontMatter = [
+    "---",
+    `id: ${note.id}`,
+    `type: ${note.type}`,
+    `isTop: ${Boolean(note.isTop)}`,
+    `isArchived: ${Boolean(note.isArchived)}`,
+    `createdAt: ${JSON.stringify(note.createdAt)}`,
+    `updatedAt: ${JSON.stringify(note.updatedAt)}`,
+    tags.length ? `tags:\n${tags.map((tag) => `  - ${JSON.stringify(tag)}`).join("\n")}` : "tags: []",
+    "---",
+  ];
+  return `${frontMatter.join("\n")}\n\n${note.content}\n`;
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw new Error(`Could not read ${path}: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Fetch every note matching an export selector.
+ */
+async function selectNotes(blinko: BlinkoClient, selector: ExportSelector = {}): Promise<Note[]> {
+  const { tag, ...params } = selector;
+  const wanted = tag ? normalizeTag(tag) : "";
+  const search: Omit<SearchNotesParams, "page" | "size"> = { searchText: "", ...params };
+
+  const notes: Note[] = [];
+  for await (const note of blinko.iterateNotes(search)) {
+    if (!wanted || hasTag(note.content, wanted)) {
+      notes.push(note);
+    }
+  }
+  return notes;
+}
+
+/**
+ * Export notes as Markdown files, rewriting only notes changed since the last export.
+ * A note whose file name changed (e.g. after editing its first line) has its old file removed.
+ */
+async function exportMarkdown(directory: string, notes: Note[]): Promise<ExportSummary> {
+  const manifestPath = join(directory, MANIFEST_FILE);
+  const manifest = (await readJson<Manifest>(manifestPath)) ?? { version: 1, notes: {} };
+  let written = 0;
+
+  for (const note of notes) {
+    const file = noteFileName(note);
+    const previous = manifest.notes[note.id];
+    if (previous && previous.updatedAt === note.updatedAt && previous.file === file) {
+      continue;
+    }
+
+    await writeFile(join(directory, file), renderMarkdown(note), "utf8");
+    if (previous && previous.file !== file) {
+      await rm(join(directory, previous.file), { force: true });
+    }
+    manifest.notes[note.id] = { file, updatedAt: note.updatedAt };
+    written++;
+  }
+
+  await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  return { path: directory, total: notes.length, written, unchanged: notes.length - written };
+}
+
+/**
+ * Export notes into a JSON backup, merging them by ID into an existing backup.
+ */
+async function exportJson(directory: string, notes: Note[]): Promise<ExportSummary> {
+  const backupPath = join(directory, BACKUP_FILE);
+  const backup = await readJson<Backup>(backupPath);
+  const byId = new Map((backup?.notes ?? []).map((note) => [note.id, note]));
+  let written = 0;
+
+  for (const note of notes) {
+    if (byId.get(note.id)?.updatedAt !== note.updatedAt) {
+      written++;
+    }
+    byId.set(note.id, note);
+  }
+
+  const merged: Backup = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    notes: [...byId.values()].sort((a, b) => a.id - b.id),
+  };
+  await writeFile(backupPath, `${JSON.stringify(merged, null, 2)}\n`, "utf8");
+  return { path: backupPath, total: notes.length, written, unchanged: notes.length - written };
+}
+
+/**
+ * Export the notes matching a selector to a local directory.
+ * @param blinko - Blinko client.
+ * @param options - Target directory (created if missing), format and selector.
+ */
+export async function exportNotes(blinko: BlinkoClient, { directory, format, selector }: ExportOptions): Promise<ExportSummary> {
+  if (!directory) {
+    throw new Error("Export directory is required");
+  }
+  if (format !== "markdown" && format !== "json") {
+    throw new Error(`Unknown export format: ${format}. Use "markdown" or "json".`);
+  }
+
+  const dir = resolve(directory);
+  await mkdir(dir, { recursive: true });
+  const notes = await selectNotes(blinko, selector);
+  return format === "markdown" ? exportMarkdown(dir, notes) : exportJson(dir, notes);
+}
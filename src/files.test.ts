@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { LocalFiles } from "./files.js";
+
+describe("LocalFiles.resolve", () => {
+  let base: string;
+  let root: string;
+  let files: LocalFiles;
+
+  before(async () => {
+    base = await realpath(await mkdtemp(join(tmpdir(), "blinko-files-")));
+    root = join(base, "root");
+    await mkdir(join(root, "notes"), { recursive: true });
+    await writeFile(join(base, "secret.txt"), "secret");
+    await symlink(join(base, "secret.txt"), join(root, "secret-link"));
+    await symlink(base, join(root, "outside"));
+    await symlink(join(base, "missing.txt"), join(root, "dangling"));
+    files = new LocalFiles(root);
+  });
+
+  after(() => rm(base, { recursive: true, force: true }));
+
+  it("resolves relative paths against the root", async () => {
+    assert.equal(await files.resolve("notes/new.md"), join(root, "notes", "new.md"));
+    assert.equal(await files.resolve(join(root, "notes")), join(root, "notes"));
+  });
+
+  it("rejects paths that leave the root", async () => {
+    for (const path of ["../secret.txt", "notes/../../secret.txt", join(base, "secret.txt"), "~/file.txt"]) {
+      await assert.rejects(files.resolve(path), /outside the allowed directory/, path);
+    }
+  });
+
+  it("rejects symbolic links out of the root, also for files that do not exist yet", async () => {
+    await assert.rejects(files.resolve("secret-link"), /outside the allowed directory/);
+    await assert.rejects(files.resolve("outside/new.txt"), /outside the allowed directory/);
+    await assert.rejects(files.resolve("dangling"), /broken symbolic link/);
+  });
+
+  it("does not take a sibling directory with the same prefix for the root", async () => {
+    await mkdir(join(base, "root-other"), { recursive: true });
+    await assert.rejects(files.resolve("../root-other/x.txt"), /outside the allowed directory/);
+  });
+
+  it("rejects every path when disabled and allows any without a root", async () => {
+    await assert.rejects(new LocalFiles(undefined, false).resolve("x.txt"), /disabled on this server/);
+    assert.equal(await new LocalFiles().resolve(join(base, "secret.txt")), join(base, "secret.txt"));
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Local file access of the tools that read or write files by path.
+ *
+ * With a root directory set, every path must lie inside it. Paths are
+ * compared after realpath, so symbolic links cannot lead out of the root; a
+ * path that does not exist yet is checked through its nearest existing parent.
+ * Relative paths are taken relative to the root.
+ */
+
+import { lstat, realpath } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+/**
+ * Tools that only work with local paths, turned off when paths are disabled.
+ */
+export const PATH_TOOLS = ["export_blinko_notes", "import_blinko_notes"];
+
+/**
+ * Resolve a local path, expanding "~" to the home directory.
+ * @param base - Directory relative paths are resolved against (default: the working directory).
+ */
+export function resolveLocalPath(path: string, base = process.cwd()): string {
+  return path === "~" || path.startsWith("~/") ? resolve(homedir(), path.slice(2)) : resolve(base, path);
+}
+
+/**
+ * Real path of a file that may not exist yet: the real path of its nearest
+ * existing parent, followed by the rest of the path.
+ */
+async function realpathOfNearest(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (e) {
+    const parent = dirname(path);
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT" || parent === path) {
+      throw e;
+    }
+    // A link whose target is missing would still be followed by a write
+    if (await lstat(path).then(() => true, () => false)) {
+      throw new Error(`${path} is a broken symbolic link`);
+    }
+    return join(await realpathOfNearest(parent), basename(path));
+  }
+}
+
+export class LocalFiles {
+  readonly root?: string;
+  readonly enabled: boolean;
+  private realRoot?: Promise<string>;
+
+  /**
+   * @param root - Directory every path must lie in; any path is allowed when unset.
+   * @param enabled - Accept local paths at all (default: true).
+   */
+  constructor(root?: string, enabled = true) {
+    this.root = root ? resolveLocalPath(root) : undefined;
+    this.enabled = enabled;
+  }
+
+  /**
+   * Resolve a path given to a tool.
+   * @returns The real path of the file or directory.
+   * @throws If local paths are disabled or the path is outside the root directory.
+   */
+  async resolve(path: string): Promise<string> {
+    if (!this.enabled) {
+      throw new Error("Local file paths are disabled on this server. Set --file_root or BLINKO_FILE_ROOT to allow the files of one directory.");
+    }
+    if (!this.root) {
+      return resolveLocalPath(path);
+    }
+
+    const root = await (this.realRoot ??= realpath(this.root).catch((e) => {
+      this.realRoot = undefined;
+      throw new Error(`File root ${this.root} is not accessible: ${e.message}`);
+    }));
+    const real = await realpathOfNearest(resolveLocalPath(path, root));
+    const rel = relative(root, real);
+    if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new Error(`${path} is outside the allowed directory ${this.root}`);
+    }
+    return real;
+  }
+}
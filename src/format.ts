@@ -0,0 +1,374 @@
+/**
+ * Shared rendering of notes for tool results.
+ *
+ * Read tools take a `format` argument: "text" (default) for readable lines,
+ * "markdown" for Markdown, or "json" for the structured data as JSON text.
+ * Whatever the format, results also carry the data as MCP structuredContent,
+ * matching the tool's declared output schema.
+ * Dates are shown in the configured time zone and locale, which also decides
+ * where a calendar day starts and ends.
+ */
+
+import { Note } from "./blinko.js";
+import { extractTags } from "./tags.js";
+
+export const OUTPUT_FORMATS = ["text", "markdown", "json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export interface DisplayOptions {
+  /**
+   * IANA time zone for dates, e.g. "Europe/Berlin" (default: the process time zone).
+   */
+  timeZone?: string;
+  /**
+   * BCP 47 locale for dates, e.g. "en-GB" (default: the process locale).
+   */
+  locale?: string;
+}
+
+/**
+ * Input schema property of the read tools.
+ */
+export const FORMAT_PROPERTY = {
+  format: {
+    type: "string",
+    enum: [...OUTPUT_FORMATS],
+    description: "Output format: 'text' (default), 'markdown' or 'json'. The result also carries the same data as structuredContent.",
+  },
+};
+
+/**
+ * JSON schema of a note in structured results.
+ */
+export const NOTE_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    type: { type: "number", description: "0=flash, 1=normal, 2=todo" },
+    typeLabel: { type: "string" },
+    content: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    isArchived: { type: "boolean" },
+    isRecycle: { type: "boolean" },
+    isTop: { type: "boolean" },
+    isShare: { type: "boolean" },
+    createdAt: { type: "string", description: "ISO 8601 timestamp" },
+    updatedAt: { type: "string", description: "ISO 8601 timestamp" },
+  },
+  required: ["id", "type", "typeLabel", "content", "tags", "createdAt", "updatedAt"],
+};
+
+/**
+ * Output schema of a tool returning a list of notes, with extra properties.
+ */
+export function notesOutputSchema(extra: Record<string, unknown> = {}) {
+  return {
+    type: "object" as const,
+    properties: {
+      notes: { type: "array", items: NOTE_SCHEMA },
+      ...extra,
+    },
+    required: ["notes"],
+  };
+}
+
+/**
+ * JSON schema of a note with every detail, as returned by get_blinko_note.
+ */
+export const NOTE_DETAILS_SCHEMA = {
+  type: "object",
+  properties: {
+    ...NOTE_SCHEMA.properties,
+    isReviewed: { type: "boolean" },
+    share: {
+      type: "object",
+      properties: {
+        hasPassword: { type: "boolean" },
+        linkId: { type: "string" },
+        expiresAt: { type: "string" },
+        viewCount: { type: "number" },
+      },
+    },
+    attachments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: { type: "string" }, path: { type: "string" }, type: { type: "string" }, size: { type: "number" } },
+      },
+    },
+    references: { type: "array", items: { type: "number" } },
+    referencedBy: { type: "array", items: { type: "number" } },
+    comments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { author: { type: "string" }, content: { type: "string" }, createdAt: { type: "string" } },
+      },
+    },
+  },
+  required: NOTE_SCHEMA.required,
+};
+
+/**
+ * A note as returned in structured results.
+ */
+export interface NoteData {
+  id: number;
+  type: number;
+  typeLabel: string;
+  content: string;
+  tags: string[];
+  isArchived: boolean;
+  isRecycle: boolean;
+  isTop: boolean;
+  isShare: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NoteDetailsData extends NoteData {
+  isReviewed: boolean;
+  share?: { hasPassword: boolean; linkId?: string; expiresAt?: string; viewCount?: number };
+  attachments: { name: string; path: string; type?: string; size?: number }[];
+  references: number[];
+  referencedBy: number[];
+  comments: { author: string; content: string; createdAt: string }[];
+}
+
+/**
+ * Parse the format argument of a read tool.
+ */
+export function parseFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null || value === "") {
+    return "text";
+  }
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new Error(`Unknown format: ${value}. Use ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * Label of a note type, e.g. "Todo Note".
+ */
+export function typeLabel(type: number): string {
+  switch (type) {
+    case 0: return "Flash Note";
+    case 1: return "Normal Note";
+    case 2: return "Todo Note";
+    default: return "Unknown";
+  }
+}
+
+export class NoteFormatter {
+  private readonly dateFormat: Intl.DateTimeFormat;
+  private readonly partsFormat: Intl.DateTimeFormat;
+
+  /**
+   * @param options - Time zone and locale for dates.
+   */
+  constructor({ timeZone, locale }: DisplayOptions = {}) {
+    try {
+      this.dateFormat = new Intl.DateTimeFormat(locale || undefined, {
+        dateStyle: "medium",
+        timeStyle: "short",
+        timeZone: timeZone || undefined,
+      });
+      this.partsFormat = new Intl.DateTimeFormat("en-US", {
+        timeZone: timeZone || undefined,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+    } catch (e) {
+      throw new Error(`Invalid time zone or locale (${timeZone ?? "default"}, ${locale ?? "default"}): ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Wall-clock time of an instant in the configured time zone, as if it were UTC.
+   */
+  private wallClock(time: number): number {
+    const parts = Object.fromEntries(this.partsFormat.formatToParts(new Date(time)).map((part) => [part.type, Number(part.value)]));
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  }
+
+  /**
+   * The instant a day starts in the configured time zone.
+   * @param utcMidnight - Midnight UTC of the day.
+   */
+  private startOf(utcMidnight: number): Date {
+    // The offset may change between the first guess and the actual midnight (daylight saving)
+    const offsetAt = (time: number) => this.wallClock(time) - Math.floor(time / 1000) * 1000;
+    const guess = utcMidnight - offsetAt(utcMidnight);
+    return new Date(utcMidnight - offsetAt(guess));
+  }
+
+  /**
+   * The calendar day (YYYY-MM-DD) of an instant in the configured time zone.
+   */
+  calendarDay(date: Date): string {
+    return new Date(this.wallClock(date.getTime())).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Start and end of a calendar day in the configured time zone. A day with
+   * a daylight saving change lasts 23 or 25 hours.
+   * @param day - Date as YYYY-MM-DD.
+   * @throws If day is not a valid date.
+   */
+  dayRange(day: string): { start: Date; end: Date } {
+    const match = DAY_PATTERN.exec(day.trim());
+    const midnight = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+    if (isNaN(midnight) || new Date(midnight).getUTCDate() !== Number(match![3])) {
+      throw new Error(`Invalid date: ${day}. Use YYYY-MM-DD.`);
+    }
+    return { start: this.startOf(midnight), end: this.startOf(midnight + DAY_MS) };
+  }
+
+  /**
+   * Format an ISO timestamp for display; invalid values are returned as is.
+   */
+  formatDate(value: string): string {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : this.dateFormat.format(date);
+  }
+
+  /**
+   * The structured form of a note.
+   */
+  noteData(note: Note): NoteData {
+    return {
+      id: note.id,
+      type: note.type,
+      typeLabel: typeLabel(note.type),
+      content: note.content,
+      tags: extractTags(note.content),
+      isArchived: Boolean(note.isArchived),
+      isRecycle: Boolean(note.isRecycle),
+      isTop: Boolean(note.isTop),
+      isShare: Boolean(note.isShare),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+    };
+  }
+
+  /**
+   * The structured form of a note with every detail the API returned.
+   */
+  noteDetails(note: Note): NoteDetailsData {
+    return {
+      ...this.noteData(note),
+      isReviewed: Boolean(note.isReviewed),
+      ...(note.isShare
+        ? {
+            share: {
+              hasPassword: Boolean(note.sharePassword),
+              ...(note.shareEncryptedUrl ? { linkId: note.shareEncryptedUrl } : {}),
+              ...(note.shareExpiryDate ? { expiresAt: note.shareExpiryDate } : {}),
+              ...(note.shareViewCount !== undefined ? { viewCount: note.shareViewCount } : {}),
+            },
+          }
+        : {}),
+      attachments: (note.attachments ?? []).map(({ name, path, type, size }) => ({
+        name,
+        path,
+        ...(type ? { type } : {}),
+        ...(size !== undefined ? { size: Number(size) } : {}),
+      })),
+      references: (note.references ?? []).map((r) => r.toNoteId ?? r.toNote?.id).filter((id): id is number => id !== undefined),
+      referencedBy: (note.referencedBy ?? []).map((r) => r.fromNoteId ?? r.fromNote?.id).filter((id): id is number => id !== undefined),
+      comments: (note.comments ?? []).map((c) => ({
+        author: c.account?.nickname || c.account?.name || c.guestName || "Anonymous",
+        content: c.content,
+        createdAt: c.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Render a note with every detail the API returned.
+   */
+  formatNoteDetails(note: Note, format: OutputFormat): string {
+    const details = this.noteDetails(note);
+    const flags = [
+      details.isTop && "pinned",
+      details.isArchived && "archived",
+      details.isRecycle && "in recycle bin",
+      details.isReviewed && "reviewed",
+    ].filter(Boolean);
+    const share = details.share
+      ? `shared${details.share.hasPassword ? " with password" : ""}${details.share.linkId ? `, link ID ${details.share.linkId}` : ""}${details.share.expiresAt ? `, expires ${this.formatDate(details.share.expiresAt)}` : ""}${details.share.viewCount !== undefined ? `, ${details.share.viewCount} view(s)` : ""}`
+      : "not shared";
+    const excerpt = (content: string | undefined) => (content ?? "").replace(/\s+/g, " ").slice(0, 80);
+    const section = (title: string) => (format === "markdown" ? ["", `#### ${title}`, ""] : ["", `${title}:`]);
+
+    const lines = format === "markdown"
+      ? [
+          `### Note ${note.id} · ${details.typeLabel}${flags.length ? ` (${flags.join(", ")})` : ""}`,
+          `_Created ${this.formatDate(note.createdAt)} · Updated ${this.formatDate(note.updatedAt)} · ${share}_`,
+        ]
+      : [
+          `[ID: ${note.id}] [${details.typeLabel}]${flags.length ? ` (${flags.join(", ")})` : ""}`,
+          `Created: ${this.formatDate(note.createdAt)} | Updated: ${this.formatDate(note.updatedAt)}`,
+          `Share: ${share}`,
+        ];
+    lines.push("", note.content);
+    if (details.attachments.length) {
+      lines.push(...section("Attachments"), ...details.attachments.map((a) => `- ${a.name} (${a.type ?? "unknown type"}${a.size !== undefined ? `, ${a.size} bytes` : ""}): ${a.path}`));
+    }
+    if (note.references?.length) {
+      lines.push(...section("References"), ...note.references.map((r) => `- [ID: ${r.toNoteId ?? r.toNote?.id}] ${excerpt(r.toNote?.content)}`));
+    }
+    if (note.referencedBy?.length) {
+      lines.push(...section("Referenced by"), ...note.referencedBy.map((r) => `- [ID: ${r.fromNoteId ?? r.fromNote?.id}] ${excerpt(r.fromNote?.content)}`));
+    }
+    if (details.comments.length) {
+      lines.push(...section("Comments"), ...details.comments.map((c) => `- ${c.author} (${this.formatDate(c.createdAt)}): ${c.content}`));
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Render a note as a list entry.
+   * @param detail - Optional extra line, e.g. a search snippet.
+   */
+  formatNote(note: Note, format: OutputFormat, detail?: string): string {
+    const created = this.formatDate(note.createdAt);
+    const updated = this.formatDate(note.updatedAt);
+    if (format === "markdown") {
+      return [
+        `### Note ${note.id} · ${typeLabel(note.type)}`,
+        `_Created ${created} · Updated ${updated}_`,
+        ...(detail ? [`> ${detail}`] : []),
+        "",
+        note.content,
+      ].join("\n");
+    }
+    return `- [ID: ${note.id}] [${typeLabel(note.type)}] ${detail ?? note.content}\n  Created: ${created} | Updated: ${updated}`;
+  }
+}
+
+/**
+ * Build the result of a read tool.
+ * JSON format returns the structured data as text as well, for clients that
+ * do not read structuredContent.
+ * @param format - Requested output format.
+ * @param structured - Data matching the tool's output schema.
+ * @param render - Text or Markdown rendering, as one or more text items.
+ */
+export function formatResult(format: OutputFormat, structured: Record<string, unknown>, render: () => string | string[]) {
+  const parts = format === "json" ? [JSON.stringify(structured, null, 2)] : [render()].flat();
+  return {
+    content: (format === "markdown" ? [parts.join("\n\n")] : parts).map((text) => ({ type: "text", text })),
+    structuredContent: structured,
+  };
+}
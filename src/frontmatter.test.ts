@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseFrontMatter } from "./frontmatter.js";
+
+describe("parseFrontMatter", () => {
+  it("parses YAML front matter and strips it from the body", () => {
+    const { data, body } = parseFrontMatter("---\ntitle: Weekly review\ntags: [work, \"a, b\"]\npinned: true\n---\n\nBody text");
+    assert.deepEqual(data, { title: "Weekly review", tags: ["work", "a, b"], pinned: true });
+    assert.equal(body, "Body text");
+  });
+
+  it("keeps dates as strings", () => {
+    const { data } = parseFrontMatter("---\nstart: 2026-01-05\n---\nx");
+    assert.equal(data.start, "2026-01-05");
+  });
+
+  it("reads nested lists and CRLF line endings", () => {
+    const { data, body } = parseFrontMatter("---\r\naliases:\r\n  - one\r\n  - two\r\n---\r\nBody");
+    assert.deepEqual(data, { aliases: ["one", "two"] });
+    assert.equal(body, "Body");
+  });
+
+  it("returns empty data for content without front matter", () => {
+    assert.deepEqual(parseFrontMatter("Just a note"), { data: {}, body: "Just a note" });
+    assert.deepEqual(parseFrontMatter("---\n---\nBody"), { data: {}, body: "Body" });
+  });
+
+  it("keeps invalid or non-mapping front matter in the body", () => {
+    for (const content of ["---\ntags: [open\n---\nBody", "---\nSome text between rules\n---\nBody"]) {
+      assert.deepEqual(parseFrontMatter(content), { data: {}, body: content });
+    }
+  });
+});
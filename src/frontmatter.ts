@@ -0,0 +1,44 @@
+/**
+ * YAML front matter of Markdown notes, parsed with the same YAML parser as
+ * the config file.
+ *
+ * Front matter that is not valid YAML or not a mapping is kept as part of the
+ * body, since a note may well start with a "---" horizontal rule.
+ */
+
+import { parse as parseYaml } from "yaml";
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue };
+
+export interface ParsedMarkdown {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split Markdown into front matter data and body.
+ * Content without front matter yields empty data and the content as body.
+ */
+export function parseFrontMatter(content: string): ParsedMarkdown {
+  const match = FRONT_MATTER_PATTERN.exec(content);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1] ?? "");
+  } catch {
+    return { data: {}, body: content };
+  }
+  if (data !== null && (typeof data !== "object" || Array.isArray(data))) {
+    return { data: {}, body: content };
+  }
+
+  return {
+    data: (data ?? {}) as Record<string, FrontMatterValue>,
+    body: content.slice(match[0].length).replace(/^\r?\n/, ""),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * HTTP transport for sharing one server deployment between several clients.
+ *
+ * Endpoints:
+ * - GET  /health                     liveness check, no authentication
+ * - GET  /sse                        opens an SSE stream and starts a new session
+ * - POST /messages?sessionId=<id>    delivers client messages to a session
+ *
+ * /sse and /messages require an "Authorization: Bearer <token>" header.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { BlinkoConfig, createServer } from "./server.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+/**
+ * Check the request's bearer token against the configured token.
+ * Uses a constant-time comparison to avoid leaking the token through timing.
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Write a JSON response.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+/**
+ * Start serving the MCP server over HTTP/SSE.
+ * @param config - Blinko connection settings shared by all sessions.
+ * @param options - Listen address and bearer token.
+ */
+export async function startHttpServer(config: BlinkoConfig, { host, port, token }: HttpOptions): Promise<void> {
+  if (!token) {
+    throw new Error("HTTP transport requires a bearer token (--http_token or MCP_HTTP_TOKEN)");
+  }
+
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      if (!isAuthorized(req, token)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJson(res, 401, { error: "Unauthorized" });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        // Clients on other machines must not reach arbitrary local paths
+        const server = createServer({ ...config, requireFileRoot: true });
+        sessions.set(transport.sessionId, transport);
+        res.on("close", () => {
+          sessions.delete(transport.sessionId);
+          server.close().catch(() => {});
+        });
+        await server.connect(transport);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const transport = sessions.get(url.searchParams.get("sessionId") ?? "");
+        if (!transport) {
+          sendJson(res, 404, { error: "Unknown session" });
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 405, { error: "Method not allowed" });
+    } catch (error) {
+      console.error("HTTP request error:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  console.error(`Blinko MCP server listening on http://${host}:${port}${SSE_PATH}`);
+}
@@ -0,0 +1,341 @@
+/**
+ * Import notes from a Markdown folder (including Obsidian vaults) or from a
+ * JSON backup written by export_blinko_notes.
+ *
+ * - Front matter maps to the note type and flags; front matter tags are kept as hashtags.
+ * - Notes whose content already exists in Blinko are skipped (content hash dedupe).
+ * - A mapping file from source path to note ID is written after every note,
+ *   so an interrupted import resumes where it stopped.
+ */
+
+import { createHash } from "node:crypto";
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import { BlinkoClient, Note } from "./blinko.js";
+import { Backup } from "./export.js";
+import { FrontMatterValue, parseFrontMatter } from "./frontmatter.js";
+import { extractTags, normalizeTag } from "./tags.js";
+
+/**
+ * How original timestamps are kept: dropped, or written into the note content.
+ */
+export type TimestampMode = "none" | "content";
+
+export interface ImportOptions {
+  /**
+   * A directory of Markdown files or a JSON backup file.
+   */
+  source: string;
+  dryRun?: boolean;
+  timestamps?: TimestampMode;
+  /**
+   * Mapping file path. Defaults to ".blinko-import-map.json" inside a source
+   * directory, or "<file>.import-map.json" next to a JSON backup.
+   */
+  mappingFile?: string;
+  /**
+   * Note type used when the source does not specify one (default: 1, normal note).
+   */
+  defaultType?: 0 | 1 | 2;
+}
+
+export interface ImportFailure {
+  source: string;
+  error: string;
+}
+
+export interface ImportSummary {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  duplicates: number;
+  alreadyImported: number;
+  failed: ImportFailure[];
+  mappingFile: string;
+  mapping: Record<string, number>;
+  /**
+   * Whether the mapping file was written, i.e. at least one note was mapped.
+   */
+  mappingSaved: boolean;
+}
+
+/**
+ * A note read from the source, ready to be created.
+ */
+interface SourceNote {
+  source: string;
+  content: string;
+  type: 0 | 1 | 2;
+  isTop: boolean;
+  isArchived: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Directories of note apps that hold settings or deleted files rather than notes.
+ */
+const IGNORED_DIRECTORIES = new Set([".obsidian", ".trash", "node_modules"]);
+
+/**
+ * Line appended to the content when original timestamps are kept.
+ */
+const TIMESTAMP_LINE = /\n*_Imported note, originally created [^\n]*_\s*$/;
+
+/**
+ * Hash the content of a note for dedupe, ignoring whitespace and the timestamp line.
+ */
+export function contentHash(content: string): string {
+  const normalized = content.replace(TIMESTAMP_LINE, "").replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function parseType(value: FrontMatterValue | undefined, fallback: 0 | 1 | 2): 0 | 1 | 2 {
+  switch (typeof value === "string" ? value.toLowerCase() : value) {
+    case 0: case "0": case "flash": return 0;
+    case 1: case "1": case "note": case "normal": return 1;
+    case 2: case "2": case "todo": return 2;
+    default: return fallback;
+  }
+}
+
+function parseTimestamp(value: FrontMatterValue | undefined): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Collect front matter tags, given as a list or a space/comma separated string.
+ */
+function frontMatterTags(value: FrontMatterValue | undefined): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,]+/) : [];
+  return raw.map((tag) => normalizeTag(String(tag ?? ""))).filter(Boolean);
+}
+
+/**
+ * Append front matter tags that the body does not already carry.
+ */
+function withTags(body: string, tags: string[]): string {
+  const present = new Set(extractTags(body));
+  const missing = tags.filter((tag) => !present.has(tag));
+  return missing.length ? `${body.trimEnd()}\n\n${missing.map((tag) => `#${tag}`).join(" ")}` : body;
+}
+
+/**
+ * Read a Markdown file into a source note.
+ */
+async function readMarkdownNote(path: string, root: string, defaultType: 0 | 1 | 2): Promise<SourceNote> {
+  const text = await readFile(path, "utf8");
+  const info = await stat(path);
+  const { data, body } = parseFrontMatter(text);
+
+  return {
+    source: relative(root, path),
+    content: withTags(body.trim(), frontMatterTags(data.tags ?? data.tag)),
+    type: parseType(data.type, defaultType),
+    isTop: data.isTop === true || data.pinned === true,
+    isArchived: data.isArchived === true || data.archived === true,
+    createdAt: parseTimestamp(data.createdAt ?? data.created ?? data.date) ?? info.birthtime.toISOString(),
+    updatedAt: parseTimestamp(data.updatedAt ?? data.updated ?? data.modified) ?? info.mtime.toISOString(),
+  };
+}
+
+/**
+ * List Markdown files below a directory, skipping hidden and app directories.
+ */
+async function listMarkdownFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || IGNORED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listMarkdownFiles(path)));
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Read every note of a JSON backup (a Backup object or a bare array of notes).
+ */
+async function readBackup(path: string, defaultType: 0 | 1 | 2): Promise<SourceNote[]> {
+  let parsed: Backup | Note[];
+  try {
+    parsed = JSON.parse(await readFile(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read JSON backup ${path}: ${(e as Error).message}`);
+  }
+
+  const notes = Array.isArray(parsed) ? parsed : parsed.notes;
+  if (!Array.isArray(notes)) {
+    throw new Error(`${path} is not a Blinko JSON backup`);
+  }
+
+  const name = basename(path);
+  return notes
+    .filter((note) => note && typeof note.content === "string")
+    .map((note, index) => ({
+      source: `${name}#${note.id ?? index}`,
+      content: note.content.trim(),
+      type: parseType(note.type, defaultType),
+      isTop: note.isTop === true,
+      isArchived: note.isArchived === true,
+      createdAt: parseTimestamp(note.createdAt),
+      updatedAt: parseTimestamp(note.updatedAt),
+    }));
+}
+
+/**
+ * Read the mapping file of a previous (possibly interrupted) import.
+ */
+async function readMapping(path: string): Promise<Record<string, number>> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw new Error(`Could not read mapping file ${path}: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Import notes into Blinko.
+ * @param blinko - Blinko client.
+ * @param options - Source, dry-run, timestamp and mapping options.
+ * @param onProgress - Optional callback after each processed note.
+ */
+export async function importNotes(
+  blinko: BlinkoClient,
+  options: ImportOptions,
+  onProgress?: (done: number, total: number) => Promise<void> | void
+): Promise<ImportSummary> {
+  if (!options.source) {
+    throw new Error("Import source is required");
+  }
+
+  const source = resolve(options.source);
+  const defaultType = options.defaultType ?? 1;
+  const isDirectory = (await stat(source)).isDirectory();
+  let notes: SourceNote[] = [];
+  if (isDirectory) {
+    // One file at a time, so large vaults do not run out of file handles
+    for (const file of await listMarkdownFiles(source)) {
+      notes.push(await readMarkdownNote(file, source, defaultType));
+    }
+  } else {
+    notes = await readBackup(source, defaultType);
+  }
+
+  const mappingFile = resolve(
+    options.mappingFile ?? (isDirectory ? join(source, ".blinko-import-map.json") : join(dirname(source), `${basename(source)}.import-map.json`))
+  );
+  const mapping = await readMapping(mappingFile);
+
+  // Hash every existing note, active and archived, for dedupe
+  const existing = new Map<string, number>();
+  for (const isArchived of [false, true]) {
+    for await (const note of blinko.iterateNotes({ searchText: "", isArchived })) {
+      existing.set(contentHash(note.content), note.id);
+    }
+  }
+
+  const summary: ImportSummary = {
+    dryRun: Boolean(options.dryRun),
+    total: notes.length,
+    created: 0,
+    duplicates: 0,
+    alreadyImported: 0,
+    failed: [],
+    mappingFile,
+    mapping,
+    mappingSaved: false,
+  };
+  const saveMapping = async () => {
+    await writeFile(mappingFile, `${JSON.stringify(mapping, null, 2)}\n`, "utf8");
+    summary.mappingSaved = true;
+  };
+
+  let done = 0;
+  for (const note of notes) {
+    done++;
+    if (note.source in mapping) {
+      summary.alreadyImported++;
+      await onProgress?.(done, notes.length);
+      continue;
+    }
+
+    if (!note.content) {
+      summary.failed.push({ source: note.source, error: "empty content" });
+      await onProgress?.(done, notes.length);
+      continue;
+    }
+
+    const hash = contentHash(note.content);
+    const duplicateOf = existing.get(hash);
+    if (duplicateOf !== undefined) {
+      summary.duplicates++;
+      if (!summary.dryRun) {
+        mapping[note.source] = duplicateOf;
+        await saveMapping();
+      }
+      await onProgress?.(done, notes.length);
+      continue;
+    }
+
+    if (summary.dryRun) {
+      summary.created++;
+      // Count later copies of the same content in the source as duplicates too
+      existing.set(hash, 0);
+      await onProgress?.(done, notes.length);
+      continue;
+    }
+
+    let content = note.content;
+    if (options.timestamps === "content" && note.createdAt) {
+      content += `\n\n_Imported note, originally created ${note.createdAt}${note.updatedAt ? `, updated ${note.updatedAt}` : ""}_`;
+    }
+
+    try {
+      const created = await blinko.upsertNote({ content, type: note.type });
+      existing.set(hash, created.id);
+      mapping[note.source] = created.id;
+      await saveMapping();
+      summary.created++;
+
+      if (note.isTop || note.isArchived) {
+        await blinko.updateNote(created.id, { isTop: note.isTop, isArchived: note.isArchived }).catch((e) => {
+          summary.failed.push({ source: note.source, error: `created as note ${created.id}, but setting flags failed: ${e.message}` });
+        });
+      }
+    } catch (e) {
+      summary.failed.push({ source: note.source, error: e instanceof Error ? e.message : String(e) });
+    }
+    await onProgress?.(done, notes.length);
+  }
+
+  return summary;
+}
+
+/**
+ * Render an import summary as text.
+ */
+export function formatImportSummary(summary: ImportSummary): string {
+  const lines = [
+    summary.dryRun
+      ? `Dry run over ${summary.total} note(s): ${summary.created} would be created, ${summary.duplicates} duplicate(s), ${summary.alreadyImported} already imported, ${summary.failed.length} invalid.`
+      : `Imported ${summary.total} note(s): ${summary.created} created, ${summary.duplicates} duplicate(s), ${summary.alreadyImported} already imported, ${summary.failed.length} failed.`,
+    ...summary.failed.map((f) => `- ${f.source}: ${f.error}`),
+  ];
+  if (summary.mappingSaved) {
+    lines.push(`Mapping from source path to note ID written to ${summary.mappingFile}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,110 @@
+/**
+ * Blinko clients for the configured instances.
+ * The top-level settings configure the default instance; a config file can
+ * add further named instances, which tools select with their instance argument.
+ */
+
+import { BlinkoClient, BlinkoClientOptions } from "./blinko.js";
+import { MirroredBlinkoClient, openMirror } from "./mirror.js";
+import { BlinkoConfig, InstanceConfig } from "./server.js";
+
+export const DEFAULT_INSTANCE = "default";
+
+const DEFAULT_MIRROR_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface InstanceSummary {
+  name: string;
+  domain: string;
+  isDefault: boolean;
+  mirror: boolean;
+}
+
+export class BlinkoInstances {
+  readonly defaultName: string;
+  private readonly configs: Map<string, InstanceConfig>;
+  private readonly clients = new Map<string, BlinkoClient>();
+  private readonly onNoteChanged?: (noteId: number) => void;
+
+  /**
+   * @param config - Server configuration; its top-level settings are the default instance.
+   * @param onNoteChanged - Called when a note of the default instance changes.
+   */
+  constructor(config: BlinkoConfig, onNoteChanged?: (noteId: number) => void) {
+    const { instanceName, instances, domain, apiKey, timeoutMs, maxRetries, mirrorDir, mirrorSyncIntervalMs } = config;
+    this.defaultName = instanceName || DEFAULT_INSTANCE;
+    this.configs = new Map([
+      [this.defaultName, { domain, apiKey, timeoutMs, maxRetries, mirrorDir, mirrorSyncIntervalMs }],
+      ...Object.entries(instances ?? {}).filter(([name]) => name !== this.defaultName),
+    ]);
+    this.onNoteChanged = onNoteChanged;
+  }
+
+  /**
+   * Names of the configured instances, the default first.
+   */
+  get names(): string[] {
+    return [...this.configs.keys()];
+  }
+
+  /**
+   * Get the client of an instance, created on first use. With a mirror
+   * directory, the client falls back to the mirror when Blinko is unreachable.
+   * @param name - Instance name (default: the default instance).
+   */
+  get(name?: string): BlinkoClient {
+    const instance = name || this.defaultName;
+    const config = this.configs.get(instance);
+    if (!config) {
+      throw new Error(`Unknown Blinko instance: ${instance}. Configured instances: ${this.names.join(", ")}`);
+    }
+    const suffix = this.configs.size > 1 ? ` for instance "${instance}"` : "";
+    if (!config.domain) {
+      throw new Error(`Blinko domain not set${suffix}`);
+    }
+    if (!config.apiKey) {
+      throw new Error(`Blinko API key not set${suffix}`);
+    }
+
+    let client = this.clients.get(instance);
+    if (!client) {
+      const { domain, apiKey, timeoutMs, maxRetries, mirrorDir, mirrorSyncIntervalMs } = config;
+      const options: BlinkoClientOptions = { domain, apiKey, timeoutMs, maxRetries };
+      // Resources only show the default instance, so only its changes are reported
+      const onNoteChanged = instance === this.defaultName ? this.onNoteChanged : undefined;
+      if (mirrorDir) {
+        const mirror = openMirror(mirrorDir);
+        const upstream = new BlinkoClient(options);
+        mirror.startAutoSync(upstream, mirrorSyncIntervalMs ?? DEFAULT_MIRROR_SYNC_INTERVAL_MS);
+        client = new MirroredBlinkoClient({ ...options, onNoteChanged }, mirror, upstream);
+      } else {
+        client = new BlinkoClient({ ...options, onNoteChanged });
+      }
+      this.clients.set(instance, client);
+    }
+    return client;
+  }
+
+  /**
+   * Create the clients of every fully configured instance with a mirror, so
+   * the mirrors are filled before Blinko goes away.
+   */
+  startMirrors(): void {
+    for (const [name, config] of this.configs) {
+      if (config.mirrorDir && config.domain && config.apiKey) {
+        this.get(name);
+      }
+    }
+  }
+
+  /**
+   * Describe the configured instances, without their API keys.
+   */
+  describe(): InstanceSummary[] {
+    return [...this.configs].map(([name, config]) => ({
+      name,
+      domain: config.domain,
+      isDefault: name === this.defaultName,
+      mirror: Boolean(config.mirrorDir),
+    }));
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Links between notes.
+ *
+ * This server links notes with "[[id]]" (or "[[id|label]]") in the content of
+ * the linking note. Blinko's own references, returned by the note detail
+ * endpoint, are read as links too, but can only be changed in Blinko.
+ * Backlinks are found by searching for the link text.
+ */
+
+import { BlinkoClient, Note } from "./blinko.js";
+
+const LINK_PATTERN = /\[\[(\d+)(?:\|[^\]]*)?\]\]/g;
+const LINK_LINE_PATTERN = /^(\s*\[\[\d+(?:\|[^\]]*)?\]\])+\s*$/;
+
+export const MAX_GRAPH_DEPTH = 3;
+export const DEFAULT_GRAPH_NODES = 50;
+export const MAX_GRAPH_NODES = 200;
+
+export interface GraphNode {
+  id: number;
+  title: string;
+  type: number;
+  /**
+   * Distance from the root note.
+   */
+  depth: number;
+}
+
+export interface GraphEdge {
+  from: number;
+  to: number;
+}
+
+export interface NoteGraph {
+  root: number;
+  depth: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /**
+   * True if nodes were left out because of the node limit.
+   */
+  truncated: boolean;
+}
+
+/**
+ * IDs linked from content with [[id]], in order of first appearance.
+ */
+export function extractLinks(content: string): number[] {
+  return [...new Set([...content.matchAll(LINK_PATTERN)].map((match) => Number(match[1])))];
+}
+
+/**
+ * Add a [[id]] link to content, on the trailing line of links if there is one.
+ * @returns The content, unchanged if it already links to the note.
+ */
+export function addLink(content: string, targetId: number): string {
+  if (extractLinks(content).includes(targetId)) {
+    return content;
+  }
+  const trimmed = content.replace(/\s+$/, "");
+  const lastLine = trimmed.slice(trimmed.lastIndexOf("\n") + 1);
+  if (LINK_LINE_PATTERN.test(lastLine)) {
+    return `${trimmed} [[${targetId}]]`;
+  }
+  return trimmed ? `${trimmed}\n\n[[${targetId}]]` : `[[${targetId}]]`;
+}
+
+/**
+ * Remove every [[id]] link to a note from content. Only lines holding the
+ * link change: they lose trailing spaces, and a line left empty is dropped
+ * together with the blank lines before it if it was the last line.
+ * @returns The content, unchanged if it does not link to the note.
+ */
+export function removeLink(content: string, targetId: number): string {
+  const source = `[ \\t]*\\[\\[${targetId}(?:\\|[^\\]]*)?\\]\\]`;
+  if (!new RegExp(source).test(content)) {
+    return content;
+  }
+
+  const lines: string[] = [];
+  let droppedLast = false;
+  for (const line of content.split("\n")) {
+    const rest = line.replace(new RegExp(source, "g"), "");
+    droppedLast = rest !== line && !rest.trim();
+    if (rest === line) {
+      lines.push(line);
+    } else if (!droppedLast) {
+      lines.push(rest.replace(/^[ \t]+(?=\S)/, (space) => (line.startsWith(space) ? space : "")).trimEnd());
+    }
+  }
+
+  // A dropped last line takes the blank lines that separated it along
+  if (droppedLast) {
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+      lines.pop();
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Notes a note links to, through [[id]] links and Blinko references.
+ */
+export function outgoingLinks(note: Note): number[] {
+  const references = (note.references ?? []).map((r) => r.toNoteId ?? r.toNote?.id).filter((id): id is number => id !== undefined);
+  return [...new Set([...extractLinks(note.content), ...references])].filter((id) => id !== note.id);
+}
+
+/**
+ * Archived notes holding any [[id]] link, for reuse across several backlink lookups.
+ */
+export async function archivedLinkingNotes(blinko: BlinkoClient): Promise<Note[]> {
+  const notes: Note[] = [];
+  for await (const note of blinko.iterateNotes({ searchText: "[[", isArchived: true })) {
+    if (extractLinks(note.content).length > 0) {
+      notes.push(note);
+    }
+  }
+  return notes;
+}
+
+/**
+ * Notes linking to a note, through [[id]] links and Blinko references.
+ * @param note - The note, as returned by getNote (for Blinko references).
+ * @param archived - Result of archivedLinkingNotes, to search only active notes.
+ */
+export async function findBacklinks(blinko: BlinkoClient, note: Note, archived?: Note[]): Promise<Note[]> {
+  const found = new Map<number, Note>();
+  const links = (candidate: Note) => candidate.id !== note.id && extractLinks(candidate.content).includes(note.id);
+  for await (const candidate of blinko.iterateNotes({ searchText: `[[${note.id}`, isArchived: false })) {
+    if (links(candidate)) {
+      found.set(candidate.id, candidate);
+    }
+  }
+  if (archived) {
+    archived.filter(links).forEach((candidate) => found.set(candidate.id, candidate));
+  } else {
+    for await (const candidate of blinko.iterateNotes({ searchText: `[[${note.id}`, isArchived: true })) {
+      if (links(candidate)) {
+        found.set(candidate.id, candidate);
+      }
+    }
+  }
+
+  for (const reference of note.referencedBy ?? []) {
+    const id = reference.fromNoteId ?? reference.fromNote?.id;
+    if (id !== undefined && id !== note.id && !found.has(id)) {
+      found.set(id, { id, content: "", ...reference.fromNote } as Note);
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Short title of a note: its first line with text, without Markdown markers.
+ */
+export function noteTitle(note: Pick<Note, "content">, length = 40): string {
+  const line = (note.content ?? "").split("\n").map((l) => l.replace(/^[#>*\-\s]+/, "").trim()).find(Boolean) ?? "";
+  return line.length > length ? `${line.slice(0, length - 3)}...` : line;
+}
+
+/**
+ * Build the link graph around a note, following links and backlinks up to depth.
+ * @param maxNodes - Stop adding nodes beyond this many.
+ */
+export async function buildNoteGraph(blinko: BlinkoClient, rootId: number, depth: number, maxNodes: number): Promise<NoteGraph> {
+  const nodes = new Map<number, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  let truncated = false;
+
+  const root = await blinko.getNote(rootId);
+  nodes.set(root.id, { id: root.id, title: noteTitle(root), type: root.type, depth: 0 });
+  let frontier = [root];
+  // One search per node for active notes; archived notes are searched once for the whole graph
+  const archived = depth > 0 ? await archivedLinkingNotes(blinko) : [];
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const next: Note[] = [];
+    const visit = async (id: number) => {
+      if (nodes.has(id)) {
+        return;
+      }
+      if (nodes.size >= maxNodes) {
+        truncated = true;
+        return;
+      }
+      try {
+        const note = await blinko.getNote(id);
+        nodes.set(id, { id, title: noteTitle(note), type: note.type, depth: level });
+        next.push(note);
+      } catch {
+        // Links to deleted notes are left out of the graph
+      }
+    };
+
+    for (const note of frontier) {
+      for (const to of outgoingLinks(note)) {
+        await visit(to);
+        if (nodes.has(to)) {
+          edges.set(`${note.id}>${to}`, { from: note.id, to });
+        }
+      }
+      for (const backlink of await findBacklinks(blinko, note, archived)) {
+        await visit(backlink.id);
+        if (nodes.has(backlink.id)) {
+          edges.set(`${backlink.id}>${note.id}`, { from: backlink.id, to: note.id });
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { root: rootId, depth, nodes: [...nodes.values()], edges: [...edges.values()], truncated };
+}
+
+/**
+ * Render a note graph as a Mermaid flowchart.
+ */
+export function graphToMermaid(graph: NoteGraph): string {
+  const label = (node: GraphNode) => `${node.id}: ${node.title}`.replace(/"/g, "#quot;");
+  return [
+    "graph LR",
+    ...graph.nodes.map((node) => `  n${node.id}["${label(node)}"]`),
+    ...graph.edges.map((edge) => `  n${edge.from} --> n${edge.to}`),
+    `  style n${graph.root} stroke-width:3px`,
+  ].join("\n");
+}
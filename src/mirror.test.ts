@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { BlinkoClient, Note, UpdateNoteParams, UpsertNoteParams } from "./blinko.js";
+import { BlinkoNetworkError } from "./errors.js";
+import { NoteMirror } from "./mirror.js";
+
+function note(id: number, updatedAt = "2026-01-01T00:00:00.000Z"): Note {
+  return { id, content: `Note ${id}`, type: 0, createdAt: updatedAt, updatedAt } as Note;
+}
+
+type Method = "upsertNote" | "updateNote" | "getNote";
+
+/**
+ * Upstream stub recording its writes. Errors queued for a method are thrown
+ * by its next calls, in order.
+ */
+function upstream(remote: Record<number, Note> = {}) {
+  const calls: string[] = [];
+  const errors: Partial<Record<Method, Error[]>> = {};
+  let nextId = 100;
+  const fail = (method: Method) => {
+    const error = errors[method]?.shift();
+    if (error) {
+      throw error;
+    }
+  };
+  const client = {
+    async upsertNote({ content }: UpsertNoteParams) {
+      fail("upsertNote");
+      calls.push(`upsert ${content}`);
+      return { ...note(nextId++), content };
+    },
+    async updateNote(noteId: number, updates: UpdateNoteParams) {
+      fail("updateNote");
+      calls.push(`update ${noteId} ${JSON.stringify(updates)}`);
+      return { success: true };
+    },
+    async getNote(noteId: number) {
+      fail("getNote");
+      return remote[noteId];
+    },
+  } as unknown as BlinkoClient;
+  return { client, calls, errors };
+}
+
+describe("NoteMirror.replay", () => {
+  let directory: string;
+  let mirror: NoteMirror;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "blinko-mirror-"));
+    mirror = new NoteMirror(directory);
+  });
+
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it("replays queued writes in order and replaces temporary IDs", async () => {
+    await mirror.put(note(1));
+    const local = await mirror.queueUpsert("Offline idea", 0);
+    await mirror.queueUpdate(1, { content: "Edited offline" });
+    const { client, calls } = upstream({ 1: note(1) });
+
+    assert.deepEqual(await mirror.replay(client), { applied: 2, conflicts: [], pending: 0 });
+    assert.deepEqual(calls, ["upsert Offline idea", 'update 1 {"content":"Edited offline"}']);
+    assert.equal(mirror.getNote(local.id), undefined);
+    assert.equal(mirror.getNote(100)?.content, "Offline idea");
+  });
+
+  it("keeps updates of notes changed remotely as conflicts", async () => {
+    await mirror.put(note(1));
+    await mirror.queueUpdate(1, { content: "Edited offline" });
+    const { client, calls } = upstream({ 1: note(1, "2026-01-02T00:00:00.000Z") });
+
+    const result = await mirror.replay(client);
+    assert.equal(result.applied, 0);
+    assert.match(result.conflicts[0].conflict ?? "", /changed remotely at 2026-01-02/);
+    assert.equal(mirror.getNote(1)?.content, "Note 1");
+    assert.equal((await mirror.replay(client)).pending, 1);
+    assert.deepEqual(calls, []);
+
+    assert.deepEqual(await mirror.replay(client, "overwrite"), { applied: 1, conflicts: [], pending: 0 });
+    assert.deepEqual(calls, ['update 1 {"content":"Edited offline"}']);
+  });
+
+  it("drops conflicting updates with keep_remote", async () => {
+    await mirror.put(note(1));
+    await mirror.queueUpdate(1, { content: "Edited offline" });
+    const { client, calls } = upstream({ 1: note(1, "2026-01-02T00:00:00.000Z") });
+
+    await mirror.replay(client);
+    assert.deepEqual(await mirror.replay(client, "keep_remote"), { applied: 0, conflicts: [], pending: 0 });
+    assert.deepEqual(calls, []);
+  });
+
+  it("stops at a network error and resumes a created note with its update only", async () => {
+    const local = await mirror.queueUpsert("Offline idea", 0);
+    await mirror.queueUpdate(local.id, { isTop: true });
+    const { client, calls, errors } = upstream();
+    errors.updateNote = [new BlinkoNetworkError("offline", false)];
+
+    assert.deepEqual(await mirror.replay(client), { applied: 0, conflicts: [], pending: 1 });
+    assert.equal(mirror.pendingEntries[0].createdId, 100);
+
+    assert.deepEqual(await mirror.replay(client), { applied: 1, conflicts: [], pending: 0 });
+    assert.deepEqual(calls, ["upsert Offline idea", 'update 100 {"isTop":true}']);
+  });
+
+  it("keeps a create that may have reached Blinko as a conflict", async () => {
+    await mirror.put(note(1));
+    await mirror.queueUpsert("Offline idea", 0);
+    await mirror.queueUpdate(1, { content: "Edited offline" });
+    const { client, calls, errors } = upstream({ 1: note(1) });
+    errors.upsertNote = [new BlinkoNetworkError("connection reset; the change may have been applied", false, true)];
+
+    const result = await mirror.replay(client);
+    assert.equal(result.applied, 1);
+    assert.match(result.conflicts[0].conflict ?? "", /may have been applied/);
+    assert.deepEqual(calls, ['update 1 {"content":"Edited offline"}']);
+  });
+
+  it("leaves the rest queued after a network error", async () => {
+    await mirror.queueUpsert("First", 0);
+    await mirror.queueUpsert("Second", 0);
+    const { client, calls, errors } = upstream();
+    errors.upsertNote = [new BlinkoNetworkError("offline", false)];
+
+    assert.deepEqual(await mirror.replay(client), { applied: 0, conflicts: [], pending: 2 });
+    assert.deepEqual(await mirror.replay(client), { applied: 2, conflicts: [], pending: 0 });
+    assert.deepEqual(calls, ["upsert First", "upsert Second"]);
+  });
+});
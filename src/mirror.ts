@@ -0,0 +1,665 @@
+/**
+ * Optional on-disk mirror of all notes, for working while Blinko is unreachable.
+ *
+ * - The mirror is synced incrementally: only notes whose updatedAt changed are
+ *   rewritten, and notes missing from a complete listing are dropped.
+ * - Reads fall back to the mirror when Blinko cannot be reached.
+ * - Writes made while offline go into a durable outbox and are replayed once
+ *   Blinko is reachable again. Updates of notes that changed remotely in the
+ *   meantime are held back as conflicts instead of overwriting the remote edit.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+  BlinkoClient,
+  BlinkoClientOptions,
+  Note,
+  SearchNotesParams,
+  UpdateNoteParams,
+  UpsertNoteParams,
+} from "./blinko.js";
+import { BlinkoNetworkError } from "./errors.js";
+
+const NOTES_FILE = "notes.json";
+const OUTBOX_FILE = "outbox.json";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MirrorData {
+  version: 1;
+  lastSyncedAt: string | null;
+  notes: Record<string, Note>;
+}
+
+/**
+ * A write made while offline, waiting to be replayed.
+ */
+export interface OutboxEntry {
+  id: string;
+  op: "upsert" | "update";
+  queuedAt: string;
+  /**
+   * Temporary (negative) ID handed out for a note created offline.
+   */
+  localId?: number;
+  noteId?: number;
+  content?: string;
+  type?: 0 | 1 | 2;
+  updates?: UpdateNoteParams;
+  /**
+   * updatedAt of the note when it was edited offline, used to detect conflicts.
+   */
+  baseUpdatedAt?: string;
+  /**
+   * ID of the note created by an earlier replay of this entry, set as soon as
+   * the create succeeded, so a failed follow-up update does not create it twice.
+   */
+  createdId?: number;
+  /**
+   * Set when replay found that the note changed remotely.
+   */
+  conflict?: string;
+}
+
+export interface SyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+  lastSyncedAt: string;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: OutboxEntry[];
+  pending: number;
+}
+
+/**
+ * How to resolve outbox conflicts: drop the offline edit, or apply it anyway.
+ */
+export type ConflictResolution = "keep_remote" | "overwrite";
+
+/**
+ * Per-call record of offline behavior, so tools can tell the model that
+ * results are stale or that writes were queued.
+ */
+export interface OfflineNotice {
+  servedFromMirror?: { lastSyncedAt: string | null };
+  queued: number;
+}
+
+export const offlineContext = new AsyncLocalStorage<OfflineNotice>();
+
+/**
+ * Write a file atomically, so a crash never leaves a truncated mirror.
+ */
+async function writeFileAtomic(path: string, data: string): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, data, "utf8");
+  await rename(tmp, path);
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw new Error(`Could not read ${path}: ${(e as Error).message}`);
+  }
+}
+
+export class NoteMirror {
+  private readonly directory: string;
+  private data: MirrorData = { version: 1, lastSyncedAt: null, notes: {} };
+  private outbox: OutboxEntry[] = [];
+  private loaded?: Promise<void>;
+  private syncing?: Promise<SyncResult>;
+  private replaying?: Promise<ReplayResult>;
+  private autoSyncStarted = false;
+  private changes = 0;
+
+  /**
+   * @param directory - Directory holding the mirror and outbox files.
+   */
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  /**
+   * Load the mirror and outbox from disk. Safe to call repeatedly.
+   */
+  load(): Promise<void> {
+    this.loaded ??= (async () => {
+      await mkdir(this.directory, { recursive: true });
+      this.data = (await readJson<MirrorData>(join(this.directory, NOTES_FILE))) ?? this.data;
+      this.outbox = (await readJson<OutboxEntry[]>(join(this.directory, OUTBOX_FILE))) ?? [];
+    })();
+    return this.loaded;
+  }
+
+  get lastSyncedAt(): string | null {
+    return this.data.lastSyncedAt;
+  }
+
+  /**
+   * Counter that changes whenever mirrored notes change, for caches built on the mirror.
+   */
+  get revision(): number {
+    return this.changes;
+  }
+
+  /**
+   * Every mirrored note, including notes created offline.
+   */
+  allNotes(): Note[] {
+    return Object.values(this.data.notes);
+  }
+
+  get noteCount(): number {
+    return Object.keys(this.data.notes).length;
+  }
+
+  get pendingEntries(): readonly OutboxEntry[] {
+    return this.outbox;
+  }
+
+  private saveNotes(): Promise<void> {
+    this.changes++;
+    return writeFileAtomic(join(this.directory, NOTES_FILE), JSON.stringify(this.data));
+  }
+
+  private saveOutbox(): Promise<void> {
+    return writeFileAtomic(join(this.directory, OUTBOX_FILE), `${JSON.stringify(this.outbox, null, 2)}\n`);
+  }
+
+  /**
+   * Sync the mirror from Blinko.
+   * The list API cannot filter by updatedAt, so every note is listed, but only
+   * notes with a newer updatedAt are rewritten. Concurrent calls share one sync.
+   * @param upstream - Client talking to Blinko directly, without mirror fallback.
+   */
+  sync(upstream: BlinkoClient): Promise<SyncResult> {
+    this.syncing ??= this.runSync(upstream).finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(upstream: BlinkoClient): Promise<SyncResult> {
+    await this.load();
+    const startedAt = new Date().toISOString();
+    const seen = new Set<string>();
+    let added = 0;
+    let updated = 0;
+
+    const listings: Omit<SearchNotesParams, "page" | "size">[] = [
+      { searchText: "" },
+      { searchText: "", isArchived: true },
+      { searchText: "", isRecycle: true },
+    ];
+    for (const params of listings) {
+      for await (const note of upstream.iterateNotes(params)) {
+        const key = String(note.id);
+        seen.add(key);
+        const current = this.data.notes[key];
+        if (!current) {
+          added++;
+        } else if (current.updatedAt !== note.updatedAt) {
+          updated++;
+        } else {
+          continue;
+        }
+        this.data.notes[key] = note;
+      }
+    }
+
+    let removed = 0;
+    for (const key of Object.keys(this.data.notes)) {
+      if (!seen.has(key) && Number(key) > 0) {
+        delete this.data.notes[key];
+        removed++;
+      }
+    }
+
+    this.data.lastSyncedAt = startedAt;
+    await this.saveNotes();
+    return { added, updated, removed, lastSyncedAt: startedAt };
+  }
+
+  /**
+   * Replay the outbox and sync now, then again every intervalMs (0 disables
+   * the periodic sync). Only the first call per mirror starts a timer.
+   * @param upstream - Client talking to Blinko directly, without mirror fallback.
+   */
+  startAutoSync(upstream: BlinkoClient, intervalMs: number): void {
+    if (this.autoSyncStarted) {
+      return;
+    }
+    this.autoSyncStarted = true;
+
+    const run = () => {
+      this.replay(upstream)
+        .then(() => this.sync(upstream))
+        .catch((error) => {
+          // Being offline is expected; the next run tries again
+          if (!(error instanceof BlinkoNetworkError)) {
+            console.error("Mirror sync failed:", error);
+          }
+        });
+    };
+    run();
+    if (intervalMs > 0) {
+      setInterval(run, intervalMs).unref();
+    }
+  }
+
+  /**
+   * Get a mirrored note by ID.
+   */
+  getNote(noteId: number): Note | undefined {
+    return this.data.notes[String(noteId)];
+  }
+
+  /**
+   * Search the mirror with the same parameters as BlinkoClient.searchNotes.
+   * Text search matches notes containing every search term (case-insensitive);
+   * AI search is not available offline.
+   */
+  search(params: SearchNotesParams): Note[] {
+    const terms = params.searchText.toLowerCase().split(/\s+/).filter(Boolean);
+    const type = params.type ?? -1;
+    const start = params.startDate ? Date.parse(params.startDate) : undefined;
+    const end = params.endDate ? Date.parse(params.endDate) : undefined;
+
+    const matches = Object.values(this.data.notes)
+      .filter((note) => (type === -1 || note.type === type))
+      .filter((note) => Boolean(note.isArchived) === Boolean(params.isArchived))
+      .filter((note) => Boolean(note.isRecycle) === Boolean(params.isRecycle))
+      .filter((note) => !params.hasTodo || /^\s*[-*] \[[ xX]\]/m.test(note.content))
+      .filter((note) => start === undefined || Date.parse(note.createdAt) >= start)
+      .filter((note) => end === undefined || Date.parse(note.createdAt) <= end)
+      .filter((note) => {
+        const content = note.content.toLowerCase();
+        return terms.every((term) => content.includes(term));
+      })
+      .sort((a, b) => Number(b.isTop) - Number(a.isTop) || b.updatedAt.localeCompare(a.updatedAt));
+
+    const size = params.size ?? 5;
+    const offset = ((params.page ?? 1) - 1) * size;
+    return matches.slice(offset, offset + size);
+  }
+
+  /**
+   * Approximate the daily review offline: active notes updated in the last day.
+   */
+  dailyReview(): Note[] {
+    const since = Date.now() - DAY_MS;
+    return Object.values(this.data.notes)
+      .filter((note) => !note.isArchived && !note.isRecycle && Date.parse(note.updatedAt) >= since)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Store a note in the mirror, e.g. after a successful write.
+   */
+  async put(note: Note): Promise<void> {
+    await this.load();
+    this.data.notes[String(note.id)] = note;
+    await this.saveNotes();
+  }
+
+  /**
+   * Drop a note from the mirror, e.g. after a successful delete.
+   */
+  async remove(noteId: number): Promise<void> {
+    await this.load();
+    delete this.data.notes[String(noteId)];
+    await this.saveNotes();
+  }
+
+  /**
+   * Queue a note creation made while offline.
+   * @returns A placeholder note with a temporary negative ID.
+   */
+  async queueUpsert(content: string, type: 0 | 1 | 2): Promise<Note> {
+    await this.load();
+    const localId = Math.min(0, ...Object.keys(this.data.notes).map(Number)) - 1;
+    const now = new Date().toISOString();
+    const note: Note = {
+      id: localId,
+      type,
+      content,
+      isArchived: false,
+      isRecycle: false,
+      isShare: false,
+      isTop: false,
+      isReviewed: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.outbox.push({ id: randomUUID(), op: "upsert", queuedAt: now, localId, content, type });
+    this.data.notes[String(localId)] = note;
+    await this.saveOutbox();
+    await this.saveNotes();
+    return note;
+  }
+
+  /**
+   * Queue a note update made while offline, recording the note's current
+   * updatedAt so replay can detect remote changes.
+   */
+  async queueUpdate(noteId: number, updates: UpdateNoteParams): Promise<void> {
+    await this.load();
+    const now = new Date().toISOString();
+    const note = this.getNote(noteId);
+
+    // Updates of a note created offline are folded into its pending creation
+    const pendingCreate = this.outbox.find((entry) => entry.localId === noteId);
+    if (pendingCreate) {
+      pendingCreate.content = updates.content ?? pendingCreate.content;
+      pendingCreate.type = (updates.type as 0 | 1 | 2 | undefined) ?? pendingCreate.type;
+      pendingCreate.updates = { ...pendingCreate.updates, ...updates };
+    } else {
+      // A note edited twice offline keeps the base of its first edit
+      const earlier = this.outbox.find((entry) => entry.op === "update" && entry.noteId === noteId && !entry.conflict);
+      this.outbox.push({
+        id: randomUUID(),
+        op: "update",
+        queuedAt: now,
+        noteId,
+        updates,
+        baseUpdatedAt: earlier?.baseUpdatedAt ?? note?.updatedAt,
+      });
+    }
+
+    if (note) {
+      this.data.notes[String(noteId)] = { ...note, ...updates, updatedAt: now };
+      await this.saveNotes();
+    }
+    await this.saveOutbox();
+  }
+
+  /**
+   * Replay queued writes in order. Stops at the first network error, leaving
+   * the rest queued; a create that may have reached Blinko before the error
+   * is kept as a conflict rather than sent again. Updates of notes that changed remotely are kept as
+   * conflicts unless a resolution is given.
+   * @param upstream - Client talking to Blinko directly, without mirror fallback.
+   * @param resolution - How to handle entries already marked as conflicts.
+   */
+  replay(upstream: BlinkoClient, resolution?: ConflictResolution): Promise<ReplayResult> {
+    this.replaying ??= this.runReplay(upstream, resolution).finally(() => {
+      this.replaying = undefined;
+    });
+    return this.replaying;
+  }
+
+  private async runReplay(upstream: BlinkoClient, resolution?: ConflictResolution): Promise<ReplayResult> {
+    await this.load();
+    let applied = 0;
+
+    for (const entry of [...this.outbox]) {
+      if (entry.conflict && !resolution) {
+        continue;
+      }
+      if (entry.conflict && resolution === "keep_remote") {
+        this.outbox = this.outbox.filter((e) => e !== entry);
+        await this.saveOutbox();
+        continue;
+      }
+
+      try {
+        if (entry.op === "upsert") {
+          // Content edited offline after an earlier replay created the note
+          // was not part of the create, so it goes into the update
+          const resumed = entry.createdId !== undefined;
+          if (entry.createdId === undefined) {
+            const created = await upstream.upsertNote({ content: entry.content ?? "", type: entry.type });
+            entry.createdId = created.id;
+            delete this.data.notes[String(entry.localId)];
+            this.data.notes[String(created.id)] = created;
+            await this.saveNotes();
+            await this.saveOutbox();
+          }
+          const extra: UpdateNoteParams = { ...entry.updates };
+          if (!resumed) {
+            delete extra.content;
+            delete extra.type;
+          }
+          if (Object.keys(extra).length > 0) {
+            await upstream.updateNote(entry.createdId, extra);
+            const note = this.data.notes[String(entry.createdId)];
+            if (note) {
+              this.data.notes[String(entry.createdId)] = { ...note, ...extra };
+            }
+          }
+        } else {
+          const noteId = entry.noteId!;
+          if (!entry.conflict && entry.baseUpdatedAt) {
+            const remote = await upstream.getNote(noteId);
+            if (remote.updatedAt !== entry.baseUpdatedAt) {
+              entry.conflict = `note ${noteId} changed remotely at ${remote.updatedAt} after it was edited offline`;
+              this.data.notes[String(noteId)] = remote;
+              await this.saveOutbox();
+              continue;
+            }
+          }
+          await upstream.updateNote(noteId, entry.updates ?? {});
+        }
+      } catch (e) {
+        // Stop at network errors and retry later, except for a create that may
+        // have reached Blinko: that one becomes a conflict instead of a duplicate
+        if (e instanceof BlinkoNetworkError && !(e.maybeApplied && entry.op === "upsert" && entry.createdId === undefined)) {
+          break;
+        }
+        entry.conflict = `replay failed: ${e instanceof Error ? e.message : String(e)}`;
+        await this.saveOutbox();
+        continue;
+      }
+
+      applied++;
+      this.outbox = this.outbox.filter((e) => e !== entry);
+      await this.saveOutbox();
+    }
+
+    await this.saveNotes();
+    return {
+      applied,
+      conflicts: this.outbox.filter((entry) => entry.conflict),
+      pending: this.outbox.length,
+    };
+  }
+}
+
+/**
+ * Blinko client that falls back to a mirror when Blinko is unreachable.
+ * Reads are served from the mirror; upserts and updates are queued in the outbox.
+ * Successful calls keep the mirror current and trigger a replay of queued writes.
+ */
+export class MirroredBlinkoClient extends BlinkoClient {
+  private readonly mirror: NoteMirror;
+  private readonly upstream: BlinkoClient;
+
+  /**
+   * @param options - Client options, shared with the upstream client.
+   * @param mirror - The note mirror.
+   * @param upstream - Client without fallback, used for sync and replay.
+   */
+  constructor(options: BlinkoClientOptions, mirror: NoteMirror, upstream: BlinkoClient) {
+    super(options);
+    this.mirror = mirror;
+    this.upstream = upstream;
+  }
+
+  /**
+   * Replay queued writes, then sync the mirror from Blinko.
+   * @param resolution - How to handle outbox entries marked as conflicts.
+   */
+  async syncMirror(resolution?: ConflictResolution): Promise<{ replay: ReplayResult; sync: SyncResult }> {
+    const replay = await this.mirror.replay(this.upstream, resolution);
+    const sync = await this.mirror.sync(this.upstream);
+    return { replay, sync };
+  }
+
+  /**
+   * Every mirrored note, with the mirror revision they belong to.
+   */
+  async mirroredNotes(): Promise<{ notes: Note[]; revision: number }> {
+    await this.mirror.load();
+    return { notes: this.mirror.allNotes(), revision: this.mirror.revision };
+  }
+
+  /**
+   * Run a network call, falling back when Blinko is unreachable.
+   */
+  private async withFallback<T>(call: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    let result: T;
+    try {
+      result = await call();
+    } catch (e) {
+      // A create that may have reached Blinko is not queued, or replaying it could duplicate the note
+      if (!(e instanceof BlinkoNetworkError) || e.maybeApplied) {
+        throw e;
+      }
+      await this.mirror.load();
+      return fallback();
+    }
+
+    // Blinko is reachable, so flush writes queued while it was not
+    if (this.mirror.pendingEntries.some((entry) => !entry.conflict)) {
+      this.mirror.replay(this.upstream).catch((error) => {
+        console.error("Failed to replay offline changes:", error);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Mark the current tool call as served from the mirror.
+   */
+  private markStale(): void {
+    const notice = offlineContext.getStore();
+    if (notice) {
+      notice.servedFromMirror = { lastSyncedAt: this.mirror.lastSyncedAt };
+    }
+  }
+
+  private markQueued(): void {
+    const notice = offlineContext.getStore();
+    if (notice) {
+      notice.queued++;
+    }
+  }
+
+  async searchNotes(params: SearchNotesParams): Promise<Note[]> {
+    return this.withFallback(
+      () => super.searchNotes(params),
+      async () => {
+        this.markStale();
+        return this.mirror.search(params);
+      }
+    );
+  }
+
+  async getNote(noteId: number): Promise<Note> {
+    return this.withFallback(
+      async () => {
+        const note = await super.getNote(noteId);
+        await this.mirror.put(note);
+        return note;
+      },
+      async () => {
+        const note = this.mirror.getNote(noteId);
+        if (!note) {
+          throw new BlinkoNetworkError(`Get note ${noteId}: Blinko is unreachable and the note is not in the local mirror`, false);
+        }
+        this.markStale();
+        return note;
+      }
+    );
+  }
+
+  async getDailyReviewNotes(): Promise<Note[]> {
+    return this.withFallback(
+      () => super.getDailyReviewNotes(),
+      async () => {
+        this.markStale();
+        return this.mirror.dailyReview();
+      }
+    );
+  }
+
+  async upsertNote(params: UpsertNoteParams): Promise<Note> {
+    return this.withFallback(
+      async () => {
+        const note = await super.upsertNote(params);
+        await this.mirror.put(note);
+        return note;
+      },
+      async () => {
+        this.markQueued();
+        return this.mirror.queueUpsert(params.content, params.type ?? 0);
+      }
+    );
+  }
+
+  async updateNote(noteId: number, updates: UpdateNoteParams): Promise<{ success: boolean }> {
+    return this.withFallback(
+      () => super.updateNote(noteId, updates),
+      async () => {
+        this.markQueued();
+        await this.mirror.queueUpdate(noteId, updates);
+        return { success: true };
+      }
+    );
+  }
+
+  async deleteNote(noteId: number): Promise<{ success: boolean }> {
+    const result = await super.deleteNote(noteId);
+    await this.mirror.remove(noteId);
+    return result;
+  }
+}
+
+/**
+ * Describe the age of the mirror for staleness notices.
+ */
+export function describeStaleness(lastSyncedAt: string | null): string {
+  if (!lastSyncedAt) {
+    return "never synced";
+  }
+  const minutes = Math.round((Date.now() - Date.parse(lastSyncedAt)) / 60000);
+  return `last synced at ${lastSyncedAt} (${minutes} minute(s) ago)`;
+}
+
+/**
+ * Render the result of a replay and sync as text.
+ */
+export function formatSyncResult(replay: ReplayResult, sync: SyncResult): string {
+  return [
+    `Replayed ${replay.applied} offline change(s); ${replay.pending} still queued, ${replay.conflicts.length} conflict(s).`,
+    ...replay.conflicts.map((entry) => `- ${entry.op} ${entry.noteId ?? entry.localId} (queued ${entry.queuedAt}): ${entry.conflict}`),
+    `Mirror synced at ${sync.lastSyncedAt}: ${sync.added} added, ${sync.updated} updated, ${sync.removed} removed.`,
+  ].join("\n");
+}
+
+const mirrors = new Map<string, NoteMirror>();
+
+/**
+ * Get the mirror for a directory, shared by every session of this process.
+ */
+export function openMirror(directory: string): NoteMirror {
+  const key = resolve(directory);
+  let mirror = mirrors.get(key);
+  if (!mirror) {
+    mirror = new NoteMirror(key);
+    mirrors.set(key, mirror);
+  }
+  return mirror;
+}
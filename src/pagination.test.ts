@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BlinkoClient, Note, SearchNotesParams } from "./blinko.js";
+import { decodeCursor, encodeCursor, firstCursor, SearchCursor, searchPage } from "./pagination.js";
+
+/**
+ * Client stub paging through a fixed list of notes.
+ */
+function client(notes: Note[]): BlinkoClient {
+  return {
+    async searchNotes({ page = 1, size = 5 }: SearchNotesParams) {
+      return notes.slice((page - 1) * size, page * size);
+    },
+  } as BlinkoClient;
+}
+
+const notes = Array.from({ length: 12 }, (_, i) => ({ id: i + 1, content: i % 3 === 0 ? `Note ${i + 1} #work` : `Note ${i + 1}` }) as Note);
+
+/**
+ * Follow cursors until the last page, passing each through its string form.
+ */
+async function readAll(blinko: BlinkoClient, start: SearchCursor): Promise<number[][]> {
+  const pages: number[][] = [];
+  let cursor: SearchCursor | undefined = start;
+  while (cursor) {
+    const { notes, next } = await searchPage(blinko, decodeCursor(encodeCursor(cursor)));
+    pages.push(notes.map((note) => note.id));
+    cursor = next;
+  }
+  return pages;
+}
+
+describe("cursors", () => {
+  it("round-trip through their string form", () => {
+    const cursor = firstCursor({ searchText: "plan", size: 3, type: 1 }, ["#work"]);
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  });
+
+  it("reject strings that are not cursors", () => {
+    assert.throws(() => decodeCursor("not a cursor"), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from(JSON.stringify({ params: {}, tags: [] })).toString("base64url")), /Invalid cursor/);
+  });
+});
+
+describe("searchPage", () => {
+  it("returns every note once across pages", async () => {
+    assert.deepEqual(await readAll(client(notes), firstCursor({ searchText: "", size: 5 })), [
+      [1, 2, 3, 4, 5],
+      [6, 7, 8, 9, 10],
+      [11, 12],
+    ]);
+  });
+
+  it("does not return a cursor after a short last page", async () => {
+    assert.deepEqual(await readAll(client(notes.slice(0, 10)), firstCursor({ searchText: "", size: 5 })), [
+      [1, 2, 3, 4, 5],
+      [6, 7, 8, 9, 10],
+      [],
+    ]);
+    assert.deepEqual(await readAll(client(notes.slice(0, 4)), firstCursor({ searchText: "", size: 5 })), [[1, 2, 3, 4]]);
+  });
+
+  it("resumes within a Blinko page when filtering by tags", async () => {
+    assert.deepEqual(await readAll(client(notes), firstCursor({ searchText: "", size: 2 }, ["#work"])), [
+      [1, 4],
+      [7, 10],
+      [],
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Cursor-based paging over search results.
+ * A cursor is an opaque string that carries the whole query and the position
+ * to resume from, so a client only has to pass it back to get the next page.
+ */
+
+import { BlinkoClient, Note, SearchNotesParams } from "./blinko.js";
+import { hasTag } from "./tags.js";
+
+export interface SearchCursor {
+  /**
+   * Search parameters, without page and size.
+   */
+  params: Omit<SearchNotesParams, "page" | "size">;
+  /**
+   * Hashtags every returned note must carry.
+   */
+  tags: string[];
+  /**
+   * Number of notes returned per call.
+   */
+  limit: number;
+  /**
+   * Number of notes fetched per Blinko request.
+   */
+  pageSize: number;
+  /**
+   * Blinko page (1-based) and index within it to resume from.
+   */
+  page: number;
+  skip: number;
+}
+
+/**
+ * Page size used to scan for notes when results are filtered by tags.
+ */
+const FILTERED_PAGE_SIZE = 50;
+
+/**
+ * Maximum number of Blinko pages scanned by a single call.
+ * A filtered search returns what it found so far with a cursor when exceeded.
+ */
+const MAX_PAGES_PER_CALL = 20;
+
+/**
+ * Create the cursor for the first page of a search.
+ * @param params - Search parameters; size is the number of notes per call and page the starting page.
+ * @param tags - Hashtags every returned note must carry.
+ */
+export function firstCursor(params: SearchNotesParams, tags: string[] = []): SearchCursor {
+  const { page, size, ...rest } = params;
+  const limit = size ?? 5;
+  return {
+    params: rest,
+    tags,
+    limit,
+    pageSize: tags.length ? Math.max(limit, FILTERED_PAGE_SIZE) : limit,
+    page: page ?? 1,
+    skip: 0,
+  };
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): SearchCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      cursor && typeof cursor.params === "object" && Array.isArray(cursor.tags) &&
+      [cursor.limit, cursor.pageSize, cursor.page, cursor.skip].every(Number.isInteger)
+    ) {
+      return cursor as SearchCursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor. Pass the cursor exactly as returned by the previous search.");
+}
+
+/**
+ * Fetch one page of search results.
+ * @returns The notes of this page and the cursor of the next one, if there may be more.
+ */
+export async function searchPage(blinko: BlinkoClient, cursor: SearchCursor): Promise<{ notes: Note[]; next?: SearchCursor }> {
+  const { params, tags, limit, pageSize } = cursor;
+  const notes: Note[] = [];
+  let { page, skip } = cursor;
+
+  for (let scanned = 0; scanned < MAX_PAGES_PER_CALL; scanned++) {
+    const batch = await blinko.searchNotes({ ...params, page, size: pageSize });
+
+    for (let i = skip; i < batch.length; i++) {
+      if (tags.every((tag) => hasTag(batch[i].content, tag))) {
+        notes.push(batch[i]);
+      }
+      if (notes.length === limit) {
+        const next = i + 1 < batch.length
+          ? { ...cursor, page, skip: i + 1 }
+          : batch.length === pageSize ? { ...cursor, page: page + 1, skip: 0 } : undefined;
+        return { notes, next };
+      }
+    }
+
+    if (batch.length < pageSize) {
+      return { notes };
+    }
+    page++;
+    skip = 0;
+  }
+
+  return { notes, next: { ...cursor, page, skip: 0 } };
+}
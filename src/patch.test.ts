@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyUnifiedDiff, PATCH_FUZZ_LINES } from "./patch.js";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("applyUnifiedDiff", () => {
+  it("applies a hunk at its stated position", () => {
+    const diff = "--- a\n+++ b\n@@ -2,3 +2,3 @@\n line 2\n-line 3\n+line three\n line 4";
+    assert.equal(applyUnifiedDiff(lines(5).join("\n"), diff), "line 1\nline 2\nline three\nline 4\nline 5");
+  });
+
+  it("applies several hunks, shifting later ones by earlier changes", () => {
+    const diff = "@@ -1,1 +1,2 @@\n line 1\n+inserted\n@@ -5,1 +6,1 @@\n-line 5\n+line five";
+    assert.equal(applyUnifiedDiff(lines(6).join("\n"), diff), "line 1\ninserted\nline 2\nline 3\nline 4\nline five\nline 6");
+  });
+
+  it("inserts lines after the line a hunk without old lines names", () => {
+    assert.equal(applyUnifiedDiff("a\nb", "@@ -1,0 +2,1 @@\n+new"), "a\nnew\nb");
+  });
+
+  it("ignores trailing whitespace when matching", () => {
+    assert.equal(applyUnifiedDiff("keep  \nold  ", "@@ -1,2 +1,2 @@\n keep\n-old\n+new"), "keep\nnew");
+  });
+
+  it("finds a hunk a few lines away from its stated position", () => {
+    const content = ["added", "added", ...lines(5)].join("\n");
+    const result = applyUnifiedDiff(content, "@@ -3,1 +3,1 @@\n-line 3\n+line three");
+    assert.equal(result.split("\n")[4], "line three");
+  });
+
+  it("does not look further than PATCH_FUZZ_LINES away", () => {
+    const content = lines(100).join("\n");
+    const far = `line ${PATCH_FUZZ_LINES + 2}`;
+    assert.throws(() => applyUnifiedDiff(content, `@@ -1,1 +1,1 @@\n-${far}\n+changed`), new RegExp(`within ${PATCH_FUZZ_LINES} lines of line 1`));
+    const near = `line ${PATCH_FUZZ_LINES + 1}`;
+    assert.match(applyUnifiedDiff(content, `@@ -1,1 +1,1 @@\n-${near}\n+changed`), /\nchanged\n/);
+  });
+
+  it("rejects hunks whose lines do not match", () => {
+    assert.throws(() => applyUnifiedDiff("a\nb", "@@ -1,1 +1,1 @@\n-x\n+y"), /does not apply/);
+  });
+
+  it("rejects diffs without hunks and incomplete hunks", () => {
+    assert.throws(() => applyUnifiedDiff("a", "just text"), /no hunks/);
+    assert.throws(() => applyUnifiedDiff("a\nb", "@@ -1,2 +1,2 @@\n a"), /incomplete/);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Partial edits of note content: append, prepend, find/replace, replacing a
+ * Markdown section by its heading and applying a unified diff.
+ *
+ * Edits are guarded by an optional expectedUpdatedAt precondition: the note
+ * is read, compared with the updatedAt the caller last saw, edited and written
+ * back. Blinko has no conditional update, so a write in the short window
+ * between the read and the update can still be lost.
+ */
+
+import { BlinkoClient, Note } from "./blinko.js";
+import { BlinkoConflictError } from "./errors.js";
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^[ \t]{0,3}(`{3,}|~{3,})/;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * How many lines away from its stated position a hunk may still match.
+ */
+export const PATCH_FUZZ_LINES = 20;
+
+interface Heading {
+  /**
+   * 0-based line number.
+   */
+  line: number;
+  level: number;
+  text: string;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * Check an expectedUpdatedAt precondition.
+ * @param expectedUpdatedAt - updatedAt of the note when the caller read it; no check when unset.
+ * @throws BlinkoConflictError if the note changed since.
+ */
+export function assertUnchanged(note: Note, expectedUpdatedAt?: string): void {
+  if (expectedUpdatedAt === undefined || expectedUpdatedAt === "") {
+    return;
+  }
+  const expected = new Date(expectedUpdatedAt).getTime();
+  if (isNaN(expected)) {
+    throw new Error(`Invalid expectedUpdatedAt: ${expectedUpdatedAt}. Pass the updatedAt of the note as an ISO 8601 timestamp.`);
+  }
+  if (new Date(note.updatedAt).getTime() !== expected) {
+    throw new BlinkoConflictError(
+      `Note ${note.id} was changed at ${note.updatedAt}, after the expected version ${expectedUpdatedAt}; the edit was not applied`,
+      note.updatedAt
+    );
+  }
+}
+
+/**
+ * Edit the content of a note.
+ * @param edit - Computes the new content from the current one; may throw to abort.
+ * @param expectedUpdatedAt - Precondition, see assertUnchanged.
+ * @returns The note after the edit, and whether its content changed.
+ */
+export async function editNote(
+  blinko: BlinkoClient,
+  noteId: number,
+  edit: (content: string) => string,
+  expectedUpdatedAt?: string
+): Promise<{ note: Note; changed: boolean }> {
+  const note = await blinko.getNote(noteId);
+  assertUnchanged(note, expectedUpdatedAt);
+  const content = edit(note.content);
+  if (content === note.content) {
+    return { note, changed: false };
+  }
+  await blinko.updateNote(noteId, { content });
+  // Read the note back for the new updatedAt, the precondition of the next edit
+  return { note: await blinko.getNote(noteId), changed: true };
+}
+
+/**
+ * Append text on a new line at the end of the content.
+ */
+export function appendText(content: string, text: string): string {
+  if (!text) {
+    throw new Error("text is required");
+  }
+  return !content || content.endsWith("\n") ? content + text : `${content}\n${text}`;
+}
+
+/**
+ * Prepend text on a line of its own at the start of the content.
+ */
+export function prependText(content: string, text: string): string {
+  if (!text) {
+    throw new Error("text is required");
+  }
+  return !content || text.endsWith("\n") ? text + content : `${text}\n${content}`;
+}
+
+/**
+ * Replace text in the content.
+ * @param find - Text to find, or a regular expression if regex is set.
+ * @param replacement - Replacement text; with regex, "$1" etc. insert groups.
+ * @param all - Replace every match; otherwise find must match exactly once.
+ * @returns The new content and the number of replacements.
+ */
+export function replaceText(
+  content: string,
+  find: string,
+  replacement: string,
+  { regex = false, all = false }: { regex?: boolean; all?: boolean } = {}
+): { content: string; count: number } {
+  if (!find) {
+    throw new Error("find is required");
+  }
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(regex ? find : find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gm");
+  } catch (e) {
+    throw new Error(`Invalid regular expression: ${(e as Error).message}`);
+  }
+
+  const count = [...content.matchAll(pattern)].length;
+  if (count === 0) {
+    throw new Error(`${regex ? "Pattern" : "Text"} "${find}" not found in the note`);
+  }
+  if (count > 1 && !all) {
+    throw new Error(`"${find}" matches ${count} times; make it more specific, or pass all: true to replace every match`);
+  }
+  return {
+    content: regex ? content.replace(pattern, replacement) : content.replace(pattern, () => replacement),
+    count,
+  };
+}
+
+/**
+ * Flag the lines that belong to fenced code blocks, fences included.
+ * A block closes at a fence of the same character at least as long as its opening one.
+ */
+export function codeBlockLines(lines: string[]): boolean[] {
+  let fence = "";
+  return lines.map((line) => {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = "";
+      }
+      return true;
+    }
+    return fence !== "";
+  });
+}
+
+/**
+ * Find the ATX headings ("## Title") of the content, skipping code blocks.
+ */
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  const inCode = codeBlockLines(lines);
+  lines.forEach((line, index) => {
+    const match = inCode[index] ? null : HEADING_PATTERN.exec(line);
+    if (match) {
+      headings.push({ line: index, level: match[1].length, text: match[2].trim() });
+    }
+  });
+  return headings;
+}
+
+/**
+ * Replace the body of the Markdown section under a heading, up to the next
+ * heading of the same or a higher level. The heading itself is kept.
+ * @param heading - Heading text, optionally with leading "#"s to match only that level (e.g. "## Notes").
+ * @param body - New section body; empty to clear the section.
+ * @param createIfMissing - Append the section at the end if no heading matches.
+ */
+export function replaceSection(content: string, heading: string, body: string, createIfMissing = false): string {
+  const [, hashes = "", text = heading] = /^(#{1,6})\s+(.*)$/.exec(heading.trim()) ?? [];
+  const wanted = text.trim().toLowerCase();
+  if (!wanted) {
+    throw new Error("heading is required");
+  }
+  const newBody = body.replace(/\s+$/, "");
+
+  const trailingNewline = content.endsWith("\n");
+  const lines = (trailingNewline ? content.slice(0, -1) : content).split("\n");
+  const headings = findHeadings(lines);
+  const matches = headings.filter((h) => h.text.toLowerCase() === wanted && (!hashes || h.level === hashes.length));
+
+  if (matches.length === 0) {
+    if (!createIfMissing) {
+      const available = headings.map((h) => `${"#".repeat(h.level)} ${h.text}`);
+      throw new Error(`No heading "${heading}" in the note. Headings: ${available.join(" | ") || "none"}`);
+    }
+    const section = `${"#".repeat(hashes.length || 2)} ${text.trim()}${newBody ? `\n${newBody}` : ""}`;
+    return content.trim() ? `${content.replace(/\s+$/, "")}\n\n${section}${trailingNewline ? "\n" : ""}` : section;
+  }
+  if (matches.length > 1) {
+    throw new Error(`Heading "${heading}" appears ${matches.length} times (lines ${matches.map((h) => h.line + 1).join(", ")}); add the "#"s of its level or make the heading unique`);
+  }
+
+  const match = matches[0];
+  const next = headings.find((h) => h.line > match.line && h.level <= match.level);
+  const end = next ? next.line : lines.length;
+  const result = [
+    ...lines.slice(0, match.line + 1),
+    ...(newBody ? newBody.split("\n") : []),
+    ...(next ? [""] : []),
+    ...lines.slice(end),
+  ];
+  return result.join("\n") + (trailingNewline ? "\n" : "");
+}
+
+/**
+ * Parse the hunks of a unified diff. File headers ("---", "+++", "diff")
+ * are skipped, so the diff may come straight from diff -u or git diff.
+ */
+function parseHunks(diff: string): Hunk[] {
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  const hunks: Hunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const header = HUNK_HEADER_PATTERN.exec(lines[i]);
+    if (!header) {
+      i++;
+      continue;
+    }
+    const hunk: Hunk = { header: header[0], oldStart: Number(header[1]), oldLines: [], newLines: [] };
+    let oldCount = header[2] === undefined ? 1 : Number(header[2]);
+    let newCount = header[4] === undefined ? 1 : Number(header[4]);
+    i++;
+    while (i < lines.length && (oldCount > 0 || newCount > 0)) {
+      const line = lines[i];
+      const marker = line[0];
+      const text = line.slice(1);
+      if (marker === "-") {
+        hunk.oldLines.push(text);
+        oldCount--;
+      } else if (marker === "+") {
+        hunk.newLines.push(text);
+        newCount--;
+      } else if (marker === " " || line === "") {
+        // Some editors strip the space of empty context lines
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+        oldCount--;
+        newCount--;
+      } else if (marker !== "\\") {
+        throw new Error(`Invalid line in hunk ${hunk.header}: "${line}"`);
+      }
+      i++;
+    }
+    if (oldCount > 0 || newCount > 0) {
+      throw new Error(`Hunk ${hunk.header} is incomplete: the diff ends before its last line`);
+    }
+    hunks.push(hunk);
+  }
+  if (hunks.length === 0) {
+    throw new Error("The diff has no hunks; pass a unified diff with \"@@ -a,b +c,d @@\" headers");
+  }
+  return hunks;
+}
+
+/**
+ * Whether lines match at a position, ignoring trailing whitespace.
+ */
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  return position >= 0
+    && position + expected.length <= lines.length
+    && expected.every((line, i) => lines[position + i].trimEnd() === line.trimEnd());
+}
+
+/**
+ * Apply a unified diff to the content. The context and removed lines of
+ * every hunk must match the content; a hunk may match up to PATCH_FUZZ_LINES
+ * lines away from its stated position if the note changed above it.
+ * @throws If a hunk does not apply; the content is then left unchanged.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  const lines = content.split("\n");
+  let offset = 0;
+  let minPosition = 0;
+
+  for (const hunk of parseHunks(diff)) {
+    // With no old lines, oldStart is the line the new lines follow
+    const expected = (hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+    let position = -1;
+    if (hunk.oldLines.length === 0) {
+      position = Math.min(Math.max(expected, minPosition), lines.length);
+    } else {
+      for (let distance = 0; distance <= PATCH_FUZZ_LINES; distance++) {
+        const candidates = distance === 0 ? [expected] : [expected - distance, expected + distance];
+        const found = candidates.find((candidate) => candidate >= minPosition && matchesAt(lines, hunk.oldLines, candidate));
+        if (found !== undefined) {
+          position = found;
+          break;
+        }
+      }
+    }
+    if (position === -1) {
+      throw new Error(`Hunk ${hunk.header} does not apply: the note has no lines matching "${hunk.oldLines[0]}"${hunk.oldLines.length > 1 ? ` and the ${hunk.oldLines.length - 1} line(s) after it` : ""} within ${PATCH_FUZZ_LINES} lines of line ${expected + 1}. Read the note again and rebuild the diff.`);
+    }
+
+    lines.splice(position, hunk.oldLines.length, ...hunk.newLines);
+    offset += position - expected + hunk.newLines.length - hunk.oldLines.length;
+    minPosition = position + hunk.newLines.length;
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { ToolPolicy } from "./policy.js";
+
+describe("ToolPolicy tools", () => {
+  it("hides mutating tools in read-only mode", () => {
+    const policy = new ToolPolicy({ readOnly: true });
+    assert.equal(policy.isToolEnabled("search_blinko_notes"), true);
+    assert.equal(policy.isToolEnabled("export_blinko_notes"), false);
+    assert.throws(() => policy.assertToolEnabled("delete_blinko_note"), /read-only mode/);
+  });
+
+  it("lets the deny list win over the allow list", () => {
+    const policy = new ToolPolicy({ allowTools: ["a", "b"], denyTools: ["b"] });
+    assert.deepEqual(["a", "b", "c"].filter((name) => policy.isToolEnabled(name)), ["a"]);
+  });
+
+  it("only confirms permanent deletes", () => {
+    const policy = new ToolPolicy({ deleteToTrash: true });
+    assert.equal(policy.requiresConfirmation("delete_blinko_note", { id: 1 }), false);
+    assert.equal(policy.requiresConfirmation("delete_blinko_note", { id: 1, permanent: true }), true);
+    assert.equal(policy.requiresConfirmation("clear_blinko_recycle_bin", {}), true);
+    assert.equal(new ToolPolicy({ confirmDestructive: false }).requiresConfirmation("delete_blinko_note", { id: 1 }), false);
+  });
+});
+
+describe("ToolPolicy confirmation tokens", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("returns the previewed note IDs once", () => {
+    const policy = new ToolPolicy();
+    const args = { query: "#old", limit: 10 };
+    const token = policy.issueToken("bulk_delete_blinko_notes", args, [3, 1]);
+    assert.deepEqual(policy.consumeToken("bulk_delete_blinko_notes", { limit: 10, query: "#old", dryRun: false }, token), [3, 1]);
+    assert.equal(policy.consumeToken("bulk_delete_blinko_notes", args, token), undefined);
+  });
+
+  it("rejects a token for other arguments or another tool and uses it up", () => {
+    const policy = new ToolPolicy();
+    const token = policy.issueToken("delete_blinko_note", { id: 1 }, [1]);
+    assert.equal(policy.consumeToken("delete_blinko_note", { id: 2 }, token), undefined);
+    assert.equal(policy.consumeToken("delete_blinko_note", { id: 1 }, token), undefined);
+
+    const other = policy.issueToken("delete_blinko_note", { id: 1 }, [1]);
+    assert.equal(policy.consumeToken("bulk_delete_blinko_notes", { id: 1 }, other), undefined);
+  });
+
+  it("expires tokens after the confirmation TTL", () => {
+    let now = 1_000_000;
+    mock.method(Date, "now", () => now);
+    const policy = new ToolPolicy({ confirmationTtlMs: 60_000 });
+    const args = { id: 1 };
+
+    const early = policy.issueToken("delete_blinko_note", args, [1]);
+    now += 59_999;
+    assert.deepEqual(policy.consumeToken("delete_blinko_note", args, early), [1]);
+
+    const late = policy.issueToken("delete_blinko_note", args, [1]);
+    now += 60_000;
+    assert.equal(policy.consumeToken("delete_blinko_note", args, late), undefined);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Safety policy for tool calls.
+ *
+ * - Read-only mode hides and rejects every tool that changes data.
+ * - Allow/deny lists restrict the available tools by name; deny wins.
+ * - Destructive tools only run on a second call that echoes back the
+ *   short-lived confirmation token returned by the first (preview) call.
+ *   The token holds the IDs of the previewed notes, so the confirmed call
+ *   removes exactly those.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+
+export interface PolicyConfig {
+  readOnly?: boolean;
+  allowTools?: string[];
+  denyTools?: string[];
+  /**
+   * Require a confirmation token for destructive tools (default: true).
+   */
+  confirmDestructive?: boolean;
+  /**
+   * Lifetime of a confirmation token in milliseconds (default: 5 minutes).
+   */
+  confirmationTtlMs?: number;
+  /**
+   * Make delete tools move notes to the recycle bin unless called with permanent: true.
+   */
+  deleteToTrash?: boolean;
+}
+
+/**
+ * Tools that change data in Blinko or write local files.
+ */
+export const MUTATING_TOOLS = new Set([
+  "upsert_blinko_flash_note",
+  "upsert_blinko_note",
+  "upsert_blinko_todo",
+  "update_blinko_note",
+  "delete_blinko_note",
+  "archive_blinko_note",
+  "complete_blinko_todo",
+  "share_blinko_note",
+  "clear_blinko_recycle_bin",
+  "rename_blinko_tag",
+  "merge_blinko_tags",
+  "bulk_archive_blinko_notes",
+  "bulk_delete_blinko_notes",
+  "bulk_update_blinko_notes",
+  "bulk_move_blinko_notes",
+  "bulk_complete_blinko_todos",
+  "import_blinko_notes",
+  "sync_blinko_mirror",
+  "trash_blinko_note",
+  "restore_blinko_note",
+  "purge_blinko_recycle_bin",
+  "toggle_blinko_checklist_item",
+  "add_blinko_checklist_items",
+  "link_blinko_notes",
+  "unlink_blinko_notes",
+  "copy_blinko_notes",
+  "blinko_undo",
+  "create_blinko_note_from_template",
+  "generate_due_blinko_todos",
+  "append_blinko_note",
+  "prepend_blinko_note",
+  "replace_in_blinko_note",
+  "replace_blinko_note_section",
+  "apply_blinko_note_patch",
+  "attach_blinko_file",
+  "merge_blinko_duplicates",
+  "export_blinko_notes",
+  "download_blinko_attachment",
+]);
+
+/**
+ * Tools that permanently remove data and need confirmation.
+ */
+export const DESTRUCTIVE_TOOLS = new Set([
+  "delete_blinko_note",
+  "clear_blinko_recycle_bin",
+  "bulk_delete_blinko_notes",
+  "purge_blinko_recycle_bin",
+]);
+
+/**
+ * Delete tools that move notes to the recycle bin instead when deleteToTrash is set.
+ */
+const TRASHABLE_TOOLS = new Set([
+  "delete_blinko_note",
+  "bulk_delete_blinko_notes",
+]);
+
+const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Arguments that control the confirmation flow itself and are not part of
+ * the operation a token confirms.
+ */
+const CONTROL_ARGUMENTS = new Set(["confirmationToken", "dryRun"]);
+
+/**
+ * Serialize arguments with sorted keys, so equal arguments give equal strings.
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key, v]) => v !== undefined && !CONTROL_ARGUMENTS.has(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${canonicalize(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class ToolPolicy {
+  private readonly readOnly: boolean;
+  private readonly allowTools?: Set<string>;
+  private readonly denyTools: Set<string>;
+  private readonly confirmationTtlMs: number;
+  private readonly tokens = new Map<string, { fingerprint: string; noteIds: number[]; expiresAt: number }>();
+  readonly confirmDestructive: boolean;
+  readonly deleteToTrash: boolean;
+
+  constructor(config: PolicyConfig = {}) {
+    this.readOnly = config.readOnly ?? false;
+    this.allowTools = config.allowTools?.length ? new Set(config.allowTools) : undefined;
+    this.denyTools = new Set(config.denyTools ?? []);
+    this.confirmDestructive = config.confirmDestructive ?? true;
+    this.confirmationTtlMs = config.confirmationTtlMs ?? DEFAULT_CONFIRMATION_TTL_MS;
+    this.deleteToTrash = config.deleteToTrash ?? false;
+  }
+
+  /**
+   * Check whether a tool is available under this policy.
+   */
+  isToolEnabled(name: string): boolean {
+    if (this.readOnly && MUTATING_TOOLS.has(name)) {
+      return false;
+    }
+    if (this.allowTools && !this.allowTools.has(name)) {
+      return false;
+    }
+    return !this.denyTools.has(name);
+  }
+
+  /**
+   * Throw if a tool is not available under this policy.
+   */
+  assertToolEnabled(name: string): void {
+    if (!this.isToolEnabled(name)) {
+      const reason = this.readOnly && MUTATING_TOOLS.has(name) ? "the server is in read-only mode" : "it is disabled by the server policy";
+      throw new Error(`Tool ${name} is not available: ${reason}`);
+    }
+  }
+
+  /**
+   * Check whether a call removes notes permanently, rather than moving them
+   * to the recycle bin.
+   */
+  deletesPermanently(name: string, args: Record<string, unknown>): boolean {
+    if (!DESTRUCTIVE_TOOLS.has(name)) {
+      return false;
+    }
+    return !(this.deleteToTrash && TRASHABLE_TOOLS.has(name) && args.permanent !== true);
+  }
+
+  /**
+   * Check whether a call to this tool must be confirmed with a token.
+   */
+  requiresConfirmation(name: string, args: Record<string, unknown>): boolean {
+    return this.confirmDestructive && this.deletesPermanently(name, args);
+  }
+
+  /**
+   * Issue a one-time confirmation token for a tool call.
+   * The token only confirms a call with the same tool name and arguments.
+   * @param noteIds - IDs of the notes shown in the preview.
+   */
+  issueToken(name: string, args: Record<string, unknown>, noteIds: number[]): string {
+    this.pruneExpired();
+    const token = randomBytes(4).toString("hex");
+    this.tokens.set(token, {
+      fingerprint: this.fingerprint(name, args),
+      noteIds: [...noteIds],
+      expiresAt: Date.now() + this.confirmationTtlMs,
+    });
+    return token;
+  }
+
+  /**
+   * Consume a confirmation token.
+   * @returns The note IDs of the preview if the token is valid for this call,
+   *          otherwise undefined. The token is used up either way.
+   */
+  consumeToken(name: string, args: Record<string, unknown>, token: string): number[] | undefined {
+    this.pruneExpired();
+    const entry = this.tokens.get(token);
+    this.tokens.delete(token);
+    return entry !== undefined && entry.fingerprint === this.fingerprint(name, args) ? entry.noteIds : undefined;
+  }
+
+  /**
+   * Lifetime of confirmation tokens, in whole minutes, for user-facing messages.
+   */
+  get confirmationTtlMinutes(): number {
+    return Math.max(1, Math.round(this.confirmationTtlMs / 60000));
+  }
+
+  private fingerprint(name: string, args: Record<string, unknown>): string {
+    return createHash("sha256").update(`${name}:${canonicalize(args)}`).digest("hex");
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
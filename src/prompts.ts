@@ -0,0 +1,272 @@
+/**
+ * MCP prompt templates for recurring Blinko workflows.
+ * Each prompt pre-fetches the relevant notes and embeds them in the messages,
+ * so the model can start working without calling search tools first.
+ * Every note template is also offered as a prompt named blinko_template_<name>.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { BlinkoClient, Note } from "./blinko.js";
+import { NoteFormatter, typeLabel } from "./format.js";
+import { hasTag } from "./tags.js";
+import { renderTemplate, TemplateLibrary, templateVariables } from "./templates.js";
+
+const TEMPLATE_PROMPT_PREFIX = "blinko_template_";
+
+/**
+ * Tools creating notes, indexed by note type.
+ */
+const UPSERT_TOOLS = ["upsert_blinko_flash_note", "upsert_blinko_note", "upsert_blinko_todo"];
+
+/**
+ * Maximum number of notes fetched for a single prompt.
+ */
+const PROMPT_NOTES_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse an optional date argument. A calendar day (YYYY-MM-DD) is taken in
+ * the configured time zone and stands for its start, or its end with endOfDay.
+ * @param value - Date string in ISO format (e.g. 2025-03-03 or 2025-03-03T00:00:00.000Z).
+ * @param name - Argument name used in error messages.
+ * @param fallback - Date used when the argument is missing.
+ * @param formatter - Decides where calendar days start and end.
+ * @param endOfDay - Whether a calendar day stands for its end.
+ */
+function parseDateArg(value: string | undefined, name: string, fallback: Date, formatter: NoteFormatter, endOfDay = false): Date {
+  if (!value) {
+    return fallback;
+  }
+  if (DAY_PATTERN.test(value.trim())) {
+    const { start, end } = formatter.dayRange(value);
+    return endOfDay ? end : start;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Render notes as a Markdown list for embedding in a prompt.
+ */
+function renderNotes(notes: Note[], formatter: NoteFormatter): string {
+  if (notes.length === 0) {
+    return "_No notes found._";
+  }
+  return notes.map((note) => formatter.formatNote(note, "markdown")).join("\n\n");
+}
+
+/**
+ * Build a single-message prompt result.
+ */
+function promptResult(description: string, text: string) {
+  return {
+    description,
+    messages: [
+      {
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Register prompt handlers on the server.
+ * @param server - The MCP server.
+ * @param getClient - Factory returning a configured Blinko client.
+ * @param templates - Note templates offered as prompts.
+ * @param formatter - Time zone of the date arguments.
+ */
+export function registerPromptHandlers(
+  server: Server,
+  getClient: () => BlinkoClient,
+  templates: TemplateLibrary,
+  formatter: NoteFormatter
+): void {
+  /**
+   * One prompt per note template, with the template variables as arguments.
+   * Listing the built-in prompts must not fail when Blinko or the templates
+   * directory is unavailable, so no template prompts are listed then.
+   */
+  const templatePrompts = async () => {
+    try {
+      return (await templates.list(getClient())).map((template) => ({
+        name: `${TEMPLATE_PROMPT_PREFIX}${template.name}`,
+        description: `${template.description} (note template)`,
+        arguments: templateVariables(template).map((variable) => ({
+          name: variable.name,
+          description: variable.name === "title" ? "Note title" : `Value of {{${variable.name}}}`,
+          required: variable.required,
+        })),
+      }));
+    } catch {
+      return [];
+    }
+  };
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: [
+        {
+          name: "blinko_daily_review",
+          description: "Review the notes of a single day: summarize them, surface open tasks and suggest follow-ups.",
+          arguments: [
+            {
+              name: "date",
+              description: "Day to review as YYYY-MM-DD (e.g. 2025-03-03), in the configured time zone. Defaults to today.",
+              required: false,
+            },
+          ],
+        },
+        {
+          name: "blinko_weekly_retrospective",
+          description: "Run a retrospective over a date window: what was done, what is still open, and what to change next week.",
+          arguments: [
+            {
+              name: "startDate",
+              description: "Start of the window in ISO format; a date (YYYY-MM-DD) starts at its midnight in the configured time zone. Defaults to 7 days before endDate.",
+              required: false,
+            },
+            {
+              name: "endDate",
+              description: "End of the window in ISO format; a date (YYYY-MM-DD) includes that whole day. Defaults to now.",
+              required: false,
+            },
+          ],
+        },
+        {
+          name: "blinko_todo_triage",
+          description: "Triage the open todos of a project tagged #project:<name>: prioritize, spot duplicates and stale items.",
+          arguments: [
+            {
+              name: "project",
+              description: "Project name as used in the #project:<name> tag (e.g. my-project)",
+              required: true,
+            },
+          ],
+        },
+        ...await templatePrompts(),
+      ],
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const args = request.params.arguments || {};
+    const blinko = getClient();
+
+    switch (request.params.name) {
+      case "blinko_daily_review": {
+        const date = args.date ? String(args.date).trim() : formatter.calendarDay(new Date());
+        // Timestamps are accepted too and review the day they fall on
+        const day = DAY_PATTERN.test(date) ? date : formatter.calendarDay(parseDateArg(date, "date", new Date(), formatter));
+        const { start, end } = formatter.dayRange(day);
+        const notes = await blinko.searchNotes({
+          searchText: "",
+          size: PROMPT_NOTES_LIMIT,
+          isUseAiQuery: false,
+          startDate: start.toISOString(),
+          endDate: end.toISOString(),
+        });
+
+        return promptResult(
+          `Daily review for ${day}`,
+          `Please help me review my Blinko notes for ${day}.\n\n` +
+            "1. Summarize the main themes and ideas.\n" +
+            "2. List open tasks and todos, with their note IDs.\n" +
+            "3. Point out ideas worth expanding into a normal note.\n" +
+            "4. Suggest which notes can be archived.\n\n" +
+            `## Notes (${notes.length})\n\n${renderNotes(notes, formatter)}`
+        );
+      }
+
+      case "blinko_weekly_retrospective": {
+        const end = parseDateArg(args.endDate, "endDate", new Date(), formatter, true);
+        const start = parseDateArg(args.startDate, "startDate", new Date(end.getTime() - 7 * DAY_MS), formatter);
+        if (start >= end) {
+          throw new Error("startDate must be before endDate");
+        }
+
+        const window = {
+          searchText: "",
+          size: PROMPT_NOTES_LIMIT,
+          isUseAiQuery: false,
+          startDate: start.toISOString(),
+          endDate: end.toISOString(),
+        };
+        const [active, archived] = await Promise.all([
+          blinko.searchNotes(window),
+          blinko.searchNotes({ ...window, isArchived: true }),
+        ]);
+
+        const period = `${formatter.formatDate(start.toISOString())} to ${formatter.formatDate(end.toISOString())}`;
+        return promptResult(
+          `Retrospective from ${period}`,
+          `Please run a retrospective over my Blinko notes from ${period}.\n\n` +
+            "1. What got done? Archived todos count as completed work.\n" +
+            "2. What is still open, and what has been open for too long?\n" +
+            "3. Which themes or projects took most of the attention?\n" +
+            "4. What should change next week? Propose up to three concrete actions.\n\n" +
+            `## Active notes (${active.length})\n\n${renderNotes(active, formatter)}\n\n` +
+            `## Archived notes (${archived.length})\n\n${renderNotes(archived, formatter)}`
+        );
+      }
+
+      case "blinko_todo_triage": {
+        const project = String(args.project || "").replace(/^#?project:/, "");
+        if (!project) {
+          throw new Error("Project is required");
+        }
+
+        const tag = `#project:${project}`;
+        const notes = await blinko.searchNotes({
+          searchText: tag,
+          size: PROMPT_NOTES_LIMIT,
+          type: 2,
+          isUseAiQuery: false,
+        });
+        const todos = notes.filter((note) => hasTag(note.content, tag));
+
+        return promptResult(
+          `Todo triage for ${tag}`,
+          `Please triage the open todos tagged ${tag}.\n\n` +
+            "1. Group them by theme and order each group by priority.\n" +
+            "2. Flag duplicates and todos that look done or obsolete.\n" +
+            "3. Flag todos that are too vague and propose a sharper wording.\n" +
+            "4. Recommend the next three todos to work on.\n\n" +
+            "Reference todos by their note ID. Use complete_blinko_todo or update_blinko_note only after I confirm.\n\n" +
+            `## Open todos (${todos.length})\n\n${renderNotes(todos, formatter)}`
+        );
+      }
+
+      default: {
+        if (!request.params.name.startsWith(TEMPLATE_PROMPT_PREFIX)) {
+          throw new Error("Unknown prompt");
+        }
+        const template = await templates.get(blinko, request.params.name.slice(TEMPLATE_PROMPT_PREFIX.length));
+        const content = renderTemplate(template, args, new Date(), templates.timeZone);
+
+        return promptResult(
+          `Note from template ${template.name}`,
+          `Please write a new ${typeLabel(template.type).toLowerCase()} in Blinko based on the template "${template.name}" below.\n\n` +
+            "1. Fill in the sections that are still empty, asking me for anything you cannot infer.\n" +
+            "2. Keep the structure and headings of the template.\n" +
+            `3. Show me the note, then save it with ${UPSERT_TOOLS[template.type]} once I confirm.\n\n` +
+            `## Template\n\n${content}`
+        );
+      }
+    }
+  });
+}
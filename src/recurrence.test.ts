@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { BlinkoClient, Note, SearchNotesParams } from "./blinko.js";
+import { BlinkoNetworkError } from "./errors.js";
+import { describeRecurrence, generateDueTodos, occurrences, parseRecurrence, RecurrenceState } from "./recurrence.js";
+import { Template, TemplateLibrary } from "./templates.js";
+
+describe("parseRecurrence", () => {
+  it("parses shorthands", () => {
+    assert.deepEqual(parseRecurrence("daily"), { frequency: "daily", interval: 1, weekdays: [], monthDays: [] });
+    assert.deepEqual(parseRecurrence("weekly on mon, fri"), { frequency: "weekly", interval: 1, weekdays: [1, 5], monthDays: [] });
+    assert.deepEqual(parseRecurrence("monthly on 15, last"), { frequency: "monthly", interval: 1, weekdays: [], monthDays: [15, -1] });
+  });
+
+  it("parses RRULEs", () => {
+    const recurrence = parseRecurrence("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260301T000000Z");
+    assert.deepEqual(recurrence, { frequency: "weekly", interval: 2, weekdays: [1, 3], monthDays: [], until: "2026-03-01" });
+    assert.equal(describeRecurrence(recurrence), "every 2 weeks on Mon, Wed until 2026-03-01");
+  });
+
+  it("rejects unsupported rules", () => {
+    assert.throws(() => parseRecurrence("FREQ=YEARLY"), /Unsupported recurrence frequency/);
+    assert.throws(() => parseRecurrence("FREQ=WEEKLY;BYDAY=1MO"), /positions such as 1MO/);
+    assert.throws(() => parseRecurrence("FREQ=DAILY;COUNT=3"), /COUNT is not supported/);
+    assert.throws(() => parseRecurrence("daily on mon"), /daily rules take no days/);
+  });
+});
+
+describe("occurrences", () => {
+  it("lists the weekdays of a weekly rule", () => {
+    // 2026-01-05 is a Monday
+    assert.deepEqual(occurrences(parseRecurrence("weekly on mon, fri"), "2026-01-05", "2026-01-16"), [
+      "2026-01-05",
+      "2026-01-09",
+      "2026-01-12",
+      "2026-01-16",
+    ]);
+  });
+
+  it("counts intervals from the start date", () => {
+    const everyOtherWeek = parseRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO");
+    assert.deepEqual(occurrences(everyOtherWeek, "2026-01-01", "2026-02-01", "2026-01-05"), ["2026-01-05", "2026-01-19"]);
+    assert.throws(() => occurrences(everyOtherWeek, "2026-01-01", "2026-02-01"), /needs a start date/);
+  });
+
+  it("moves monthly days past the end of a month to its last day", () => {
+    assert.deepEqual(occurrences(parseRecurrence("monthly on 31"), "2026-01-01", "2026-04-30"), [
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+    assert.deepEqual(occurrences(parseRecurrence("monthly on last"), "2028-02-01", "2028-02-29"), ["2028-02-29"]);
+  });
+
+  it("defaults to the day of the start date", () => {
+    assert.deepEqual(occurrences(parseRecurrence("monthly"), "2026-01-01", "2026-03-31", "2026-01-10"), ["2026-01-10", "2026-02-10", "2026-03-10"]);
+    // 2026-01-07 is a Wednesday
+    assert.deepEqual(occurrences(parseRecurrence("weekly"), "2026-01-01", "2026-01-20", "2026-01-07"), ["2026-01-07", "2026-01-14"]);
+  });
+
+  it("stops after the until date and starts at the start date", () => {
+    assert.deepEqual(occurrences(parseRecurrence("FREQ=DAILY;UNTIL=20260103"), "2026-01-01", "2026-01-10", "2026-01-02"), ["2026-01-02", "2026-01-03"]);
+  });
+});
+
+describe("generateDueTodos", () => {
+  const template: Template = { name: "standup", description: "", type: 2, source: "file", location: "standup.md", body: "Standup {{date}}", recurrence: "daily" };
+  const templates = { timeZone: "UTC", list: async () => [template] } as unknown as TemplateLibrary;
+
+  it("finds a pending occurrence that was created and completed before creating it again", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "blinko-recurrence-"));
+    try {
+      const state = new RecurrenceState(join(directory, "recurring.json"));
+      const options = { instance: "default", date: "2026-01-05", lookbackDays: 0 };
+      let created: Note | undefined;
+      const blinko = {
+        async upsertNote({ content }: { content: string }) {
+          // The note is created, but the answer is lost
+          created = { id: 9, content, isArchived: true } as Note;
+          throw new BlinkoNetworkError("connection reset", false, true);
+        },
+        async *iterateNotes({ isArchived }: SearchNotesParams) {
+          if (isArchived && created) {
+            yield created;
+          }
+        },
+      } as unknown as BlinkoClient;
+
+      const first = await generateDueTodos(blinko, templates, state, options);
+      assert.equal(first.failed.length, 1);
+
+      const second = await generateDueTodos(blinko, templates, state, options);
+      assert.deepEqual(second.existing, [{ template: "standup", date: "2026-01-05", noteId: 9 }]);
+      assert.deepEqual(second.created, []);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,508 @@
+/**
+ * Recurring todos: recurrence rules on templates and the generation of the
+ * notes that are due.
+ *
+ * A template with a recurrence in its front matter is recurring:
+ *
+ * ```markdown
+ * ---
+ * name: weekly-review
+ * recurrence: weekly on mon, fri
+ * start: 2026-01-05
+ * ---
+ * Weekly review for {{date}}
+ * ```
+ *
+ * Rules are a subset of iCalendar RRULEs ("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO")
+ * or the shorthands "daily", "weekly on mon, fri" and "monthly on 15" (or
+ * "monthly on last"). A monthly day past the end of a short month falls on
+ * its last day. Dates are calendar days in the configured time zone.
+ *
+ * Every generated note is recorded in a state file by instance, template and
+ * date, so running the generation again for the same period creates nothing.
+ * A date is recorded as pending before its note is created, and stays pending
+ * if the run crashes or loses the connection before Blinko answers. The next
+ * run looks for a note with the same content before creating it again.
+ */
+
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { BlinkoClient } from "./blinko.js";
+import { BlinkoNetworkError } from "./errors.js";
+import { renderTemplate, Template, TemplateLibrary } from "./templates.js";
+
+export type Frequency = "daily" | "weekly" | "monthly";
+
+/**
+ * Default and largest number of past days checked for missed occurrences.
+ */
+export const DEFAULT_LOOKBACK_DAYS = 7;
+export const MAX_LOOKBACK_DAYS = 366;
+
+export const DEFAULT_RECURRENCE_STATE = join(homedir(), ".mcp-server-blinko", "recurring.json");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const SHORTHAND_PATTERN = /^(?:every\s+)?(day|daily|week|weekly|month|monthly)(?:\s+on\s+(.+))?$/i;
+const WEEKDAYS = ["su", "mo", "tu", "we", "th", "fr", "sa"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * A lock file older than this is left over from a crashed run.
+ */
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+export interface Recurrence {
+  frequency: Frequency;
+  /**
+   * Every interval-th day, week or month, counted from the start date.
+   */
+  interval: number;
+  /**
+   * Weekdays of weekly rules, 0 (Sunday) to 6; the start's weekday when empty.
+   */
+  weekdays: number[];
+  /**
+   * Days of monthly rules, 1 to 31 or -1 for the last day; the start's day when empty.
+   */
+  monthDays: number[];
+  /**
+   * Last date (YYYY-MM-DD) with an occurrence, if any.
+   */
+  until?: string;
+}
+
+export interface GeneratedTodo {
+  template: string;
+  date: string;
+  /**
+   * ID of the created note; missing for dry runs and dates recorded by older versions without it.
+   */
+  noteId?: number;
+}
+
+export interface GenerationReport {
+  /**
+   * Last date occurrences were generated for.
+   */
+  date: string;
+  /**
+   * Notes created by this run, or that would be in a dry run.
+   */
+  created: GeneratedTodo[];
+  /**
+   * Occurrences already generated by an earlier run.
+   */
+  existing: GeneratedTodo[];
+  failed: { template: string; date?: string; error: string }[];
+}
+
+export interface GenerationOptions {
+  /**
+   * Name of the instance the notes are created in, part of the state key.
+   */
+  instance: string;
+  /**
+   * Last date to generate occurrences for (default: today).
+   */
+  date?: string;
+  /**
+   * Number of days before date also checked, so missed runs catch up (default: 7).
+   */
+  lookbackDays?: number;
+  /**
+   * Only generate the occurrences of this template.
+   */
+  template?: string;
+  dryRun?: boolean;
+}
+
+interface StateEntry {
+  noteId?: number;
+  createdAt: string;
+  /**
+   * Content of a note whose creation was started but not confirmed.
+   */
+  pending?: string;
+}
+
+/**
+ * Parse a date given as YYYY-MM-DD to a day number.
+ * @throws If the value is not a valid date.
+ */
+function toDay(value: string): number {
+  const match = DATE_PATTERN.exec(value.trim());
+  const time = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+  if (isNaN(time) || new Date(time).getUTCDate() !== Number(match![3])) {
+    throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD.`);
+  }
+  return time / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCDay();
+}
+
+function parseWeekday(value: string): number {
+  const index = WEEKDAYS.indexOf(value.trim().toLowerCase().slice(0, 2));
+  if (index === -1) {
+    throw new Error(`Invalid weekday: ${value}. Use mon, tue, ... or MO, TU, ...`);
+  }
+  return index;
+}
+
+function parseMonthDay(value: string): number {
+  const text = value.trim().toLowerCase();
+  if (text === "last") {
+    return -1;
+  }
+  const day = Number(text.replace(/(st|nd|rd|th)$/, ""));
+  if (!Number.isInteger(day) || day < -1 || day > 31 || day === 0) {
+    throw new Error(`Invalid day of the month: ${value}. Use 1 to 31, or "last" (-1).`);
+  }
+  return day;
+}
+
+function parseList<T>(value: string, parse: (item: string) => T): T[] {
+  return value.split(/\s*(?:,|\band\b)\s*/).filter(Boolean).map(parse);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a time zone.
+ */
+export function today(timeZone?: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timeZone || undefined, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+/**
+ * Parse a recurrence rule: an RRULE with FREQ (DAILY, WEEKLY or MONTHLY),
+ * INTERVAL, BYDAY, BYMONTHDAY and UNTIL, or a shorthand such as
+ * "weekly on mon, fri".
+ * @throws If the rule is invalid or uses unsupported parts.
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const text = rule.trim();
+  const shorthand = SHORTHAND_PATTERN.exec(text);
+  if (shorthand) {
+    const unit = shorthand[1].toLowerCase();
+    const frequency: Frequency = unit.startsWith("da") ? "daily" : unit.startsWith("week") ? "weekly" : "monthly";
+    const on = shorthand[2];
+    if (on && frequency === "daily") {
+      throw new Error(`Invalid recurrence "${rule}": daily rules take no days; use "weekly on ..." for some weekdays.`);
+    }
+    return {
+      frequency,
+      interval: 1,
+      weekdays: on && frequency === "weekly" ? parseList(on, parseWeekday) : [],
+      monthDays: on && frequency === "monthly" ? parseList(on, parseMonthDay) : [],
+    };
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value = ""] = part.split("=");
+    parts.set(key.trim().toUpperCase(), value.trim());
+  }
+  const unsupported = [...parts.keys()].filter((key) => !["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "UNTIL", "WKST"].includes(key));
+  if (!parts.has("FREQ") || unsupported.length > 0) {
+    throw new Error(`Invalid recurrence "${rule}"${unsupported.length > 0 ? `: ${unsupported.join(", ")} is not supported` : ""}. Use e.g. "FREQ=WEEKLY;BYDAY=MO,FR", "daily", "weekly on mon, fri" or "monthly on 15".`);
+  }
+
+  const frequency = parts.get("FREQ")!.toLowerCase() as Frequency;
+  if (!["daily", "weekly", "monthly"].includes(frequency)) {
+    throw new Error(`Unsupported recurrence frequency: ${parts.get("FREQ")}. Use DAILY, WEEKLY or MONTHLY.`);
+  }
+  const interval = Number(parts.get("INTERVAL") ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid recurrence interval: ${parts.get("INTERVAL")}. Use a positive whole number.`);
+  }
+  const byDay = parts.get("BYDAY");
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if ((byDay && frequency !== "weekly") || (byMonthDay && frequency !== "monthly")) {
+    throw new Error(`Invalid recurrence "${rule}": BYDAY only applies to WEEKLY and BYMONTHDAY to MONTHLY rules.`);
+  }
+  if (byDay && /\d/.test(byDay)) {
+    throw new Error(`Unsupported BYDAY=${byDay}: positions such as 1MO are not supported.`);
+  }
+  const until = parts.get("UNTIL")?.replace(/^(\d{4})(\d{2})(\d{2}).*$/, "$1-$2-$3");
+
+  return {
+    frequency,
+    interval,
+    weekdays: byDay ? parseList(byDay, parseWeekday) : [],
+    monthDays: byMonthDay ? parseList(byMonthDay, parseMonthDay) : [],
+    until: until === undefined ? undefined : fromDay(toDay(until)),
+  };
+}
+
+/**
+ * Describe a recurrence in words, e.g. "every 2 weeks on Mon, Fri".
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[recurrence.frequency];
+  const every = recurrence.interval === 1 ? `every ${unit}` : `every ${recurrence.interval} ${unit}s`;
+  const days = recurrence.frequency === "weekly"
+    ? recurrence.weekdays.map((day) => WEEKDAY_NAMES[day])
+    : recurrence.monthDays.map((day) => (day === -1 ? "the last day" : `day ${day}`));
+  return `${every}${days.length > 0 ? ` on ${days.join(", ")}` : ""}${recurrence.until ? ` until ${recurrence.until}` : ""}`;
+}
+
+/**
+ * Whether a recurrence has an occurrence on a date.
+ * @param start - First date of the recurrence (YYYY-MM-DD); anchors intervals and default days.
+ */
+export function occursOn(recurrence: Recurrence, date: string, start?: string): boolean {
+  const day = toDay(date);
+  const startDay = start ? toDay(start) : undefined;
+  if ((startDay !== undefined && day < startDay) || (recurrence.until && day > toDay(recurrence.until))) {
+    return false;
+  }
+  const every = (distance: number) => distance % recurrence.interval === 0;
+
+  switch (recurrence.frequency) {
+    case "daily":
+      return every(day - (startDay ?? day));
+    case "weekly": {
+      const weekdays = recurrence.weekdays.length > 0 ? recurrence.weekdays : [startDay !== undefined ? weekdayOf(startDay) : 1];
+      // Weeks start on Monday
+      const monday = (d: number) => d - ((weekdayOf(d) + 6) % 7);
+      return weekdays.includes(weekdayOf(day)) && every((monday(day) - monday(startDay ?? day)) / 7);
+    }
+    case "monthly": {
+      const current = new Date(day * DAY_MS);
+      const first = new Date((startDay ?? day) * DAY_MS);
+      const months = (current.getUTCFullYear() - first.getUTCFullYear()) * 12 + current.getUTCMonth() - first.getUTCMonth();
+      const lastDay = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + 1, 0)).getUTCDate();
+      const monthDays = recurrence.monthDays.length > 0 ? recurrence.monthDays : [startDay !== undefined ? first.getUTCDate() : 1];
+      return every(months) && monthDays.some((n) => (n === -1 ? lastDay : Math.min(n, lastDay)) === current.getUTCDate());
+    }
+  }
+}
+
+/**
+ * The occurrences of a recurrence from one date to another, both included.
+ * @throws If the recurrence has an interval but no start date.
+ */
+export function occurrences(recurrence: Recurrence, from: string, to: string, start?: string): string[] {
+  if (recurrence.interval > 1 && !start) {
+    throw new Error("A recurrence with an interval needs a start date to count from; add e.g. \"start: 2026-01-05\" to the front matter");
+  }
+  const dates: string[] = [];
+  for (let day = toDay(from); day <= toDay(to); day++) {
+    if (occursOn(recurrence, fromDay(day), start)) {
+      dates.push(fromDay(day));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Check a date argument and return it as YYYY-MM-DD.
+ * @throws If it is not a valid date.
+ */
+export function parseDate(value: string): string {
+  return fromDay(toDay(value));
+}
+
+/**
+ * Record of the generated occurrences, in a JSON file.
+ */
+export class RecurrenceState {
+  readonly path: string;
+
+  /**
+   * @param path - JSON file of the state; created on the first generated note.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async read(): Promise<Record<string, StateEntry>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")).generated ?? {};
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw new Error(`Could not read the recurrence state ${this.path}: ${(e as Error).message}`);
+    }
+  }
+
+  private async write(generated: Record<string, StateEntry>): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, `${JSON.stringify({ generated }, null, 2)}\n`, "utf8");
+    await rename(tmp, this.path);
+  }
+
+  /**
+   * Run a function while holding the lock of the state file, so runs started
+   * at the same time (e.g. by cron and a tool call) do not both generate a note.
+   * @throws If another run holds the lock.
+   */
+  async withLock<T>(run: (state: {
+    get: (key: string) => StateEntry | undefined;
+    set: (key: string, entry: StateEntry | undefined) => Promise<void>;
+  }) => Promise<T>): Promise<T> {
+    const lock = `${this.path}.lock`;
+    await mkdir(dirname(this.path), { recursive: true });
+    const acquire = () => open(lock, "wx").then((handle) => handle.close());
+    try {
+      await acquire();
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw e;
+      }
+      const info = await stat(lock).catch(() => undefined);
+      if (info && Date.now() - info.mtimeMs < STALE_LOCK_MS) {
+        throw new Error(`Another run is generating recurring todos (lock file ${lock}); try again later`);
+      }
+      await unlink(lock).catch(() => undefined);
+      await acquire();
+    }
+
+    try {
+      const generated = await this.read();
+      return await run({
+        get: (key) => generated[key],
+        set: async (key, entry) => {
+          if (entry) {
+            generated[key] = entry;
+          } else {
+            delete generated[key];
+          }
+          await this.write(generated);
+        },
+      });
+    } finally {
+      await unlink(lock).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Find a note with exactly this content, e.g. one created by a request whose
+ * answer was lost. Archived and trashed notes count too, since the todo may
+ * have been completed or discarded since.
+ */
+async function findByContent(blinko: BlinkoClient, content: string): Promise<number | undefined> {
+  const expected = content.trim();
+  const searchText = expected.split("\n").find((line) => line.trim())?.trim() ?? "";
+  for (const params of [{ searchText }, { searchText, isArchived: true }, { searchText, isRecycle: true }]) {
+    for await (const note of blinko.iterateNotes(params)) {
+      if (note.content.trim() === expected) {
+        return note.id;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create the notes of the recurring templates that are due, each occurrence
+ * once. Occurrences from lookbackDays before the date up to the date are
+ * generated, so a missed run is caught up by the next one.
+ * @param templates - Library of the recurring templates.
+ * @param state - Record of the occurrences already generated.
+ */
+export async function generateDueTodos(
+  blinko: BlinkoClient,
+  templates: TemplateLibrary,
+  state: RecurrenceState,
+  { instance, date, lookbackDays = DEFAULT_LOOKBACK_DAYS, template: only, dryRun = false }: GenerationOptions
+): Promise<GenerationReport> {
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 0 || lookbackDays > MAX_LOOKBACK_DAYS) {
+    throw new Error(`lookbackDays must be a whole number from 0 to ${MAX_LOOKBACK_DAYS}`);
+  }
+  const until = date ? parseDate(date) : today(templates.timeZone);
+  const report: GenerationReport = { date: until, created: [], existing: [], failed: [] };
+
+  let recurring: Template[] = (await templates.list(blinko)).filter((t) => t.recurrence);
+  if (only) {
+    const wanted = await templates.get(blinko, only);
+    if (!wanted.recurrence) {
+      throw new Error(`Template "${wanted.name}" has no recurrence; add e.g. "recurrence: weekly on mon" to its front matter`);
+    }
+    recurring = [wanted];
+  }
+
+  return state.withLock(async ({ get, set }) => {
+    for (const template of recurring) {
+      let dates: string[];
+      try {
+        const from = fromDay(Math.max(toDay(until) - lookbackDays, template.start ? toDay(template.start) : -Infinity));
+        dates = from > until ? [] : occurrences(parseRecurrence(template.recurrence!), from, until, template.start);
+      } catch (e) {
+        report.failed.push({ template: template.name, error: (e as Error).message });
+        continue;
+      }
+
+      for (const occurrence of dates) {
+        const key = `${instance}:${template.name}:${occurrence}`;
+        const recorded = get(key);
+        if (recorded && recorded.pending === undefined) {
+          report.existing.push({ template: template.name, date: occurrence, noteId: recorded.noteId });
+          continue;
+        }
+        try {
+          if (recorded) {
+            const noteId = await findByContent(blinko, recorded.pending!);
+            if (noteId !== undefined) {
+              if (!dryRun) {
+                await set(key, { noteId, createdAt: recorded.createdAt });
+              }
+              report.existing.push({ template: template.name, date: occurrence, noteId });
+              continue;
+            }
+          }
+          const weekday = new Intl.DateTimeFormat("en-US", { timeZone: "UTC", weekday: "long" }).format(new Date(toDay(occurrence) * DAY_MS));
+          const content = renderTemplate(template, { title: template.title ?? template.name, date: occurrence, weekday }, new Date(), templates.timeZone);
+          if (dryRun) {
+            report.created.push({ template: template.name, date: occurrence });
+            continue;
+          }
+          await set(key, { createdAt: new Date().toISOString(), pending: content });
+          let noteId: number;
+          try {
+            noteId = (await blinko.upsertNote({ content, type: template.type })).id;
+          } catch (e) {
+            // The note may have been created without an answer reaching us, so the next run checks first
+            if (!(e instanceof BlinkoNetworkError)) {
+              await set(key, undefined);
+            }
+            throw e;
+          }
+          await set(key, { noteId, createdAt: new Date().toISOString() });
+          report.created.push({ template: template.name, date: occurrence, noteId });
+        } catch (e) {
+          report.failed.push({ template: template.name, date: occurrence, error: (e as Error).message });
+        }
+      }
+    }
+    return report;
+  });
+}
+
+/**
+ * Describe the result of a generation run.
+ */
+export function formatGenerationReport(report: GenerationReport, dryRun = false): string {
+  const item = (todo: GeneratedTodo) => `- ${todo.template} for ${todo.date}${todo.noteId !== undefined ? ` (note ${todo.noteId})` : ""}`;
+  const lines = [
+    dryRun
+      ? `Dry run up to ${report.date}, nothing was created. ${report.created.length} note(s) would be created, ${report.existing.length} already generated, ${report.failed.length} failed.`
+      : `Generated recurring todos up to ${report.date}: ${report.created.length} created, ${report.existing.length} already generated, ${report.failed.length} failed.`,
+  ];
+  if (report.created.length > 0) {
+    lines.push(dryRun ? "Would create:" : "Created:", ...report.created.map(item));
+  }
+  if (report.failed.length > 0) {
+    lines.push("Failed:", ...report.failed.map((f) => `- ${f.template}${f.date ? ` for ${f.date}` : ""}: ${f.error}`));
+  }
+  return lines.join("\n");
+}
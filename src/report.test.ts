@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BlinkoClient, Note, SearchNotesParams } from "./blinko.js";
+import { NoteFormatter } from "./format.js";
+import { buildTodoReport } from "./report.js";
+
+function todo(content: string, createdAt: string, completedAt?: string): Note {
+  return { id: 1, type: 2, content, createdAt, updatedAt: completedAt ?? createdAt, isArchived: completedAt !== undefined } as Note;
+}
+
+/**
+ * Client stub listing todos, open or archived as asked.
+ */
+function client(todos: Note[]): BlinkoClient {
+  return {
+    async *iterateNotes({ isArchived }: SearchNotesParams) {
+      yield* todos.filter((note) => note.isArchived === Boolean(isArchived));
+    },
+  } as unknown as BlinkoClient;
+}
+
+const utc = new NoteFormatter({ timeZone: "UTC" });
+const berlin = new NoteFormatter({ timeZone: "Europe/Berlin" });
+
+describe("buildTodoReport", () => {
+  it("counts created and completed todos per project and day", async () => {
+    const report = await buildTodoReport(client([
+      todo("Ship #project:web", "2026-01-05T08:00:00.000Z", "2026-01-06T08:00:00.000Z"),
+      todo("Plan", "2026-01-06T09:00:00.000Z"),
+    ]), utc, "2026-01-05", "2026-01-07");
+
+    assert.deepEqual(report.projects.map((p) => [p.project, p.created, p.completed, p.meanHoursToComplete, p.open]), [
+      ["(no project)", 1, 0, null, 1],
+      ["web", 1, 1, 24, 0],
+    ]);
+    assert.deepEqual(report.throughput, [
+      { date: "2026-01-05", created: 1, completed: 0 },
+      { date: "2026-01-06", created: 1, completed: 1 },
+      { date: "2026-01-07", created: 0, completed: 0 },
+    ]);
+  });
+
+  it("takes days in the formatter's time zone", async () => {
+    // 23:30 UTC on January 4 is already January 5 in Berlin (UTC+1)
+    const todos = [todo("Late", "2026-01-04T23:30:00.000Z", "2026-01-07T23:30:00.000Z")];
+
+    const inBerlin = await buildTodoReport(client(todos), berlin, "2026-01-05", "2026-01-07");
+    assert.equal(inBerlin.total.created, 1);
+    assert.equal(inBerlin.total.completed, 0);
+    assert.deepEqual(inBerlin.throughput[0], { date: "2026-01-05", created: 1, completed: 0 });
+
+    const inUtc = await buildTodoReport(client(todos), utc, "2026-01-05", "2026-01-07");
+    assert.equal(inUtc.total.created, 0);
+    assert.equal(inUtc.total.completed, 1);
+  });
+
+  it("rejects invalid and overlong ranges", async () => {
+    await assert.rejects(buildTodoReport(client([]), utc, "2026-02-30"), /Invalid startDate: 2026-02-30/);
+    await assert.rejects(buildTodoReport(client([]), utc, "2026-01-10", "2026-01-09"), /must not be after endDate/);
+    await assert.rejects(buildTodoReport(client([]), utc, "2025-01-01", "2026-01-02"), /must not exceed 366 days/);
+    assert.equal((await buildTodoReport(client([]), utc, "2025-01-01", "2026-01-01")).throughput.length, 366);
+  });
+});
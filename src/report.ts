@@ -0,0 +1,230 @@
+/**
+ * Task-completion metrics from todo notes.
+ *
+ * A todo is completed when it is archived (see complete_blinko_todo), so its
+ * completion time is the updatedAt of the archived note. Todos are grouped by
+ * their "#project:<name>" tags; a todo without one counts as "(no project)".
+ * Days are calendar days in the formatter's time zone.
+ */
+
+import { BlinkoClient, Note } from "./blinko.js";
+import { NoteFormatter } from "./format.js";
+import { extractTags } from "./tags.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const PROJECT_PREFIX = "project:";
+export const NO_PROJECT = "(no project)";
+
+/**
+ * Age buckets of open todos, by upper bound in days.
+ */
+const AGING_BUCKETS = [
+  { label: "<1d", maxDays: 1 },
+  { label: "1-7d", maxDays: 7 },
+  { label: "7-30d", maxDays: 30 },
+  { label: ">30d", maxDays: Infinity },
+];
+
+export interface ProjectMetrics {
+  project: string;
+  created: number;
+  completed: number;
+  /**
+   * Mean time from creation to completion of the todos completed in the range, in hours.
+   */
+  meanHoursToComplete: number | null;
+  open: number;
+  aging: Record<string, number>;
+}
+
+export interface ThroughputDay {
+  date: string;
+  created: number;
+  completed: number;
+}
+
+export interface TodoReport {
+  startDate: string;
+  endDate: string;
+  total: ProjectMetrics;
+  projects: ProjectMetrics[];
+  throughput: ThroughputDay[];
+}
+
+/**
+ * Parse a report date (YYYY-MM-DD, or an ISO timestamp taken as its day in
+ * the formatter's time zone) into a day.
+ */
+function parseDay(value: string, name: string, formatter: NoteFormatter): string {
+  const invalid = new Error(`Invalid ${name}: ${value}. Use YYYY-MM-DD.`);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    try {
+      formatter.dayRange(value);
+    } catch {
+      throw invalid;
+    }
+    return value;
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw invalid;
+  }
+  return formatter.calendarDay(new Date(time));
+}
+
+/**
+ * Shift a day (YYYY-MM-DD) by a number of days.
+ */
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Projects of a todo, from its "#project:<name>" tags.
+ */
+export function todoProjects(note: Note): string[] {
+  const projects = extractTags(note.content)
+    .filter((tag) => tag.startsWith(PROJECT_PREFIX))
+    .map((tag) => tag.slice(PROJECT_PREFIX.length))
+    .filter(Boolean);
+  return projects.length ? projects : [NO_PROJECT];
+}
+
+function emptyMetrics(project: string): ProjectMetrics & { totalHours: number } {
+  return {
+    project,
+    created: 0,
+    completed: 0,
+    meanHoursToComplete: null,
+    open: 0,
+    aging: Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.label, 0])),
+    totalHours: 0,
+  };
+}
+
+/**
+ * Build a todo report for a date range.
+ * @param blinko - Blinko client.
+ * @param formatter - Time zone of the days.
+ * @param startDate - First day of the range (default: 30 days before endDate).
+ * @param endDate - Last day of the range, inclusive (default: today).
+ */
+export async function buildTodoReport(
+  blinko: BlinkoClient,
+  formatter: NoteFormatter,
+  startDate?: string,
+  endDate?: string
+): Promise<TodoReport> {
+  const end = endDate ? parseDay(endDate, "endDate", formatter) : formatter.calendarDay(new Date());
+  const start = startDate ? parseDay(startDate, "startDate", formatter) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+  if (start > end) {
+    throw new Error("startDate must not be after endDate");
+  }
+  if ((Date.parse(end) - Date.parse(start)) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    throw new Error(`The date range must not exceed ${MAX_RANGE_DAYS} days`);
+  }
+  const rangeStart = formatter.dayRange(start).start.getTime();
+  const rangeEnd = formatter.dayRange(end).end.getTime();
+  const inRange = (time: number) => time >= rangeStart && time < rangeEnd;
+  // Open todos are aged as of the end of the range, or now if that is earlier
+  const agedAt = Math.min(rangeEnd, Date.now());
+  const dayOf = (time: number) => formatter.calendarDay(new Date(time));
+
+  const throughput = new Map<string, ThroughputDay>();
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    throughput.set(day, { date: day, created: 0, completed: 0 });
+  }
+
+  const total = emptyMetrics("(all)");
+  const projects = new Map<string, ReturnType<typeof emptyMetrics>>();
+
+  for (const isArchived of [false, true]) {
+    for await (const note of blinko.iterateNotes({ searchText: "", type: 2, isArchived })) {
+      const created = Date.parse(note.createdAt);
+      const completed = isArchived ? Date.parse(note.updatedAt) : undefined;
+      // Todos created after the range did not exist yet
+      if (created >= rangeEnd) {
+        continue;
+      }
+
+      const groups = [total, ...todoProjects(note).map((project) => {
+        let metrics = projects.get(project);
+        if (!metrics) {
+          metrics = emptyMetrics(project);
+          projects.set(project, metrics);
+        }
+        return metrics;
+      })];
+
+      const openAtEnd = completed === undefined || completed >= agedAt;
+      const ageDays = (agedAt - created) / DAY_MS;
+      const bucket = AGING_BUCKETS.find((b) => ageDays < b.maxDays)!.label;
+      for (const metrics of groups) {
+        if (inRange(created)) {
+          metrics.created++;
+        }
+        if (completed !== undefined && inRange(completed)) {
+          metrics.completed++;
+          metrics.totalHours += (completed - created) / 3_600_000;
+        }
+        if (openAtEnd) {
+          metrics.open++;
+          metrics.aging[bucket]++;
+        }
+      }
+
+      if (inRange(created)) {
+        throughput.get(dayOf(created))!.created++;
+      }
+      if (completed !== undefined && inRange(completed)) {
+        throughput.get(dayOf(completed))!.completed++;
+      }
+    }
+  }
+
+  const finish = ({ totalHours, ...metrics }: ReturnType<typeof emptyMetrics>): ProjectMetrics => ({
+    ...metrics,
+    meanHoursToComplete: metrics.completed ? Math.round((totalHours / metrics.completed) * 10) / 10 : null,
+  });
+
+  return {
+    startDate: start,
+    endDate: end,
+    total: finish(total),
+    projects: [...projects.values()].map(finish).sort((a, b) => a.project.localeCompare(b.project)),
+    throughput: [...throughput.values()],
+  };
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) {
+    return "-";
+  }
+  return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10}d` : `${hours}h`;
+}
+
+/**
+ * Render a todo report as Markdown tables.
+ */
+export function formatTodoReport(report: TodoReport): string {
+  const header = ["Project", "Created", "Completed", "Mean time to complete", "Open", ...AGING_BUCKETS.map((b) => `Open ${b.label}`)];
+  const row = (m: ProjectMetrics) =>
+    `| ${[m.project, m.created, m.completed, formatHours(m.meanHoursToComplete), m.open, ...AGING_BUCKETS.map((b) => m.aging[b.label])].join(" | ")} |`;
+
+  return [
+    `## Todo report ${report.startDate} to ${report.endDate}`,
+    "",
+    `| ${header.join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...report.projects.map(row),
+    row({ ...report.total, project: "**Total**" }),
+    "",
+    "### Throughput per day",
+    "",
+    "| Date | Created | Completed |",
+    "|---|---|---|",
+    ...report.throughput.map((day) => `| ${day.date} | ${day.created} | ${day.completed} |`),
+  ].join("\n");
+}
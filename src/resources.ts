@@ -0,0 +1,195 @@
+/**
+ * MCP resources that expose Blinko notes as attachable context.
+ *
+ * Supported URIs:
+ * - blinko://note/{id}     a single note
+ * - blinko://daily-review  today's daily review notes
+ * - blinko://tag/{tag}     notes carrying a hashtag (without the leading "#"),
+ *                          including tags nested below it
+ *
+ * With several instances configured, resources serve the default instance
+ * only, and their descriptions say so.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { BlinkoClient, Note } from "./blinko.js";
+import { NoteFormatter } from "./format.js";
+import { noteTitle } from "./links.js";
+import { hasTag, normalizeTag } from "./tags.js";
+
+const NOTE_URI_PREFIX = "blinko://note/";
+const TAG_URI_PREFIX = "blinko://tag/";
+const DAILY_REVIEW_URI = "blinko://daily-review";
+
+/**
+ * Appended to resource descriptions; the tools take an instance argument instead.
+ */
+const DEFAULT_INSTANCE_ONLY = "From the default Blinko instance only; use the tools' instance argument for other instances.";
+
+/**
+ * Number of recent notes advertised by resources/list.
+ */
+const RECENT_NOTES_LIMIT = 20;
+
+/**
+ * Maximum number of notes returned when reading a tag resource.
+ */
+const TAG_NOTES_LIMIT = 100;
+
+export interface ResourceNotifier {
+  /**
+   * Notify subscribers that a note changed.
+   * Sends resources/updated for the note itself and for every subscribed
+   * list resource, since the note may have entered or left those lists.
+   */
+  notifyNoteChanged(noteId: number): void;
+}
+
+/**
+ * Build the resource URI of a note.
+ */
+export function noteUri(noteId: number): string {
+  return `${NOTE_URI_PREFIX}${noteId}`;
+}
+
+/**
+ * Render a list of notes as a Markdown document.
+ */
+function renderNoteList(heading: string, notes: Note[], formatter: NoteFormatter): string {
+  const sections = notes.map((note) => formatter.formatNote(note, "markdown"));
+  return [`# ${heading}`, `${notes.length} note(s)`, ...sections].join("\n\n");
+}
+
+/**
+ * Register resource handlers on the server.
+ * @param server - The MCP server.
+ * @param getClient - Factory returning a configured Blinko client.
+ * @param formatter - Renders notes and dates in note lists.
+ * @returns A notifier used to emit resources/updated for changed notes.
+ */
+export function registerResourceHandlers(server: Server, getClient: () => BlinkoClient, formatter: NoteFormatter): ResourceNotifier {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const notes = await getClient().searchNotes({
+      searchText: "",
+      size: RECENT_NOTES_LIMIT,
+      isUseAiQuery: false,
+    });
+
+    return {
+      resources: [
+        {
+          uri: DAILY_REVIEW_URI,
+          name: "Daily review",
+          description: `Notes selected by Blinko for today's review. ${DEFAULT_INSTANCE_ONLY}`,
+          mimeType: "text/markdown",
+        },
+        ...notes.map((note) => ({
+          uri: noteUri(note.id),
+          name: noteTitle(note, 60) || `Note ${note.id}`,
+          description: DEFAULT_INSTANCE_ONLY,
+          mimeType: "text/markdown",
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${NOTE_URI_PREFIX}{id}`,
+          name: "Blinko note",
+          description: `A single Blinko note by ID. ${DEFAULT_INSTANCE_ONLY}`,
+          mimeType: "text/markdown",
+        },
+        {
+          uriTemplate: DAILY_REVIEW_URI,
+          name: "Daily review",
+          description: `Notes selected by Blinko for today's review. ${DEFAULT_INSTANCE_ONLY}`,
+          mimeType: "text/markdown",
+        },
+        {
+          uriTemplate: `${TAG_URI_PREFIX}{tag}`,
+          name: "Blinko notes by tag",
+          description: `Notes carrying a hashtag, given without the leading '#' (e.g. blinko://tag/project:my-project). ${DEFAULT_INSTANCE_ONLY}`,
+          mimeType: "text/markdown",
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const blinko = getClient();
+
+    if (uri.startsWith(NOTE_URI_PREFIX)) {
+      const noteId = Number(uri.slice(NOTE_URI_PREFIX.length));
+      if (!noteId || isNaN(noteId)) {
+        throw new Error(`Invalid note URI: ${uri}`);
+      }
+
+      const note = await blinko.getNote(noteId);
+      return {
+        contents: [{ uri, mimeType: "text/markdown", text: note.content }],
+      };
+    }
+
+    if (uri === DAILY_REVIEW_URI) {
+      const notes = await blinko.getDailyReviewNotes();
+      return {
+        contents: [{ uri, mimeType: "text/markdown", text: renderNoteList("Daily review", notes, formatter) }],
+      };
+    }
+
+    if (uri.startsWith(TAG_URI_PREFIX)) {
+      const tag = normalizeTag(decodeURIComponent(uri.slice(TAG_URI_PREFIX.length)));
+      if (!tag) {
+        throw new Error(`Invalid tag URI: ${uri}`);
+      }
+
+      const notes = await blinko.searchNotes({
+        searchText: `#${tag}`,
+        size: TAG_NOTES_LIMIT,
+        isUseAiQuery: false,
+      });
+      const tagged = notes.filter((note) => hasTag(note.content, tag));
+      return {
+        contents: [{ uri, mimeType: "text/markdown", text: renderNoteList(`#${tag}`, tagged, formatter) }],
+      };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return {
+    notifyNoteChanged(noteId: number) {
+      const changed = noteUri(noteId);
+      for (const uri of subscriptions) {
+        if (uri === changed || uri === DAILY_REVIEW_URI || uri.startsWith(TAG_URI_PREFIX)) {
+          server.sendResourceUpdated({ uri }).catch((error) => {
+            console.error("Failed to send resource update:", error);
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Note } from "./blinko.js";
+import { NoteFormatter } from "./format.js";
+import { parseQuery, passesFilters } from "./search.js";
+
+const formatter = new NoteFormatter({ timeZone: "UTC" });
+
+function note(overrides: Partial<Note> = {}): Note {
+  return {
+    id: 1,
+    type: 1,
+    content: "",
+    isArchived: false,
+    isRecycle: false,
+    isShare: false,
+    isTop: false,
+    isReviewed: false,
+    createdAt: "2024-06-01T12:00:00.000Z",
+    updatedAt: "2024-06-01T12:00:00.000Z",
+    ...overrides,
+  } as Note;
+}
+
+describe("parseQuery", () => {
+  it("ANDs words into separate groups", () => {
+    const query = parseQuery("weekly review", formatter);
+    assert.deepEqual(query.groups, [
+      [{ negated: false, kind: "term", term: "weekly" }],
+      [{ negated: false, kind: "term", term: "review" }],
+    ]);
+    assert.equal(query.text, "weekly review");
+  });
+
+  it("puts clauses joined with OR into one group", () => {
+    const query = parseQuery("cat OR dog fish", formatter);
+    assert.deepEqual(query.groups, [
+      [{ negated: false, kind: "term", term: "cat" }, { negated: false, kind: "term", term: "dog" }],
+      [{ negated: false, kind: "term", term: "fish" }],
+    ]);
+  });
+
+  it("parses phrases, prefixes and exclusions", () => {
+    const query = parseQuery('"weekly review" proj* -draft', formatter);
+    assert.deepEqual(query.groups, [
+      [{ negated: false, kind: "phrase", terms: ["weekly", "review"] }],
+      [{ negated: false, kind: "prefix", prefix: "proj" }],
+      [{ negated: true, kind: "term", term: "draft" }],
+    ]);
+    assert.equal(query.text, '"weekly review" proj*');
+  });
+
+  it("parses filters and leaves them out of the text", () => {
+    const query = parseQuery("tag:#work type:todo is:pinned -is:archived after:2024-01-01 report", formatter);
+    assert.deepEqual(query.groups.slice(0, 4), [
+      [{ negated: false, kind: "tag", tag: "work" }],
+      [{ negated: false, kind: "type", type: 2 }],
+      [{ negated: false, kind: "is", flag: "top" }],
+      [{ negated: true, kind: "is", flag: "archived" }],
+    ]);
+    assert.deepEqual(query.groups[4], [{ negated: false, kind: "after", time: Date.parse("2024-01-01") }]);
+    assert.equal(query.text, "report");
+  });
+
+  it("rejects unknown filter values", () => {
+    assert.throws(() => parseQuery("type:memo", formatter), /Unknown note type in query: type:memo/);
+    assert.throws(() => parseQuery("is:starred", formatter), /Unknown flag in query: is:starred/);
+    assert.throws(() => parseQuery("before:yesterday", formatter), /Invalid date in query: before:yesterday/);
+    assert.throws(() => parseQuery("after:2024-02-30", formatter), /Invalid date in query: after:2024-02-30/);
+  });
+});
+
+describe("passesFilters", () => {
+  it("leaves out archived notes unless asked for", () => {
+    const archived = note({ isArchived: true });
+    assert.equal(passesFilters(archived, parseQuery("anything", formatter)), false);
+    assert.equal(passesFilters(archived, parseQuery("is:archived", formatter)), true);
+    assert.equal(passesFilters(note(), parseQuery("is:archived", formatter)), false);
+  });
+
+  it("checks tag, type and date filters", () => {
+    const todo = note({ type: 2, content: "Call Bob #project/home" });
+    assert.equal(passesFilters(todo, parseQuery("tag:project type:todo", formatter)), true);
+    assert.equal(passesFilters(todo, parseQuery("-tag:project", formatter)), false);
+    assert.equal(passesFilters(todo, parseQuery("before:2024-06-01", formatter)), false);
+    assert.equal(passesFilters(todo, parseQuery("after:2024-06-01", formatter)), true);
+  });
+
+  it("takes dates as calendar days in the formatter's time zone", () => {
+    // 23:30 on May 31 in UTC is already June 1 in Berlin (UTC+2)
+    const lateEvening = note({ createdAt: "2024-05-31T23:30:00.000Z" });
+    const berlin = new NoteFormatter({ timeZone: "Europe/Berlin" });
+    assert.equal(passesFilters(lateEvening, parseQuery("after:2024-06-01", formatter)), false);
+    assert.equal(passesFilters(lateEvening, parseQuery("after:2024-06-01", berlin)), true);
+    assert.equal(passesFilters(lateEvening, parseQuery("before:2024-06-01", berlin)), false);
+    // Midnight in Berlin is 22:00 UTC the day before
+    assert.equal(passesFilters(note({ createdAt: "2024-05-31T21:59:59.999Z" }), parseQuery("before:2024-06-01", berlin)), true);
+    assert.equal(passesFilters(note({ createdAt: "2024-05-31T22:00:00.000Z" }), parseQuery("after:2024-06-01", berlin)), true);
+  });
+
+  it("passes a note if any filter of an OR group matches", () => {
+    assert.equal(passesFilters(note({ type: 0 }), parseQuery("type:todo OR type:flash", formatter)), true);
+    assert.equal(passesFilters(note({ type: 1 }), parseQuery("type:todo OR type:flash", formatter)), false);
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * Local full-text search over notes, as a fallback and complement to
+ * Blinko's own (AI) search.
+ *
+ * - Notes are ranked with BM25 and results carry highlighted snippets.
+ * - Queries support "exact phrases", prefix* terms, -negation, OR between
+ *   terms, and the filters tag:, type:, before:, after: and is:.
+ * - Hybrid search merges local results with Blinko's AI results by
+ *   reciprocal rank fusion, deduplicated by note ID.
+ * - The index is built from the offline mirror when enabled, otherwise from
+ *   a full listing that is cached for a minute.
+ */
+
+import { BlinkoClient, Note } from "./blinko.js";
+import { NoteFormatter } from "./format.js";
+import { MirroredBlinkoClient } from "./mirror.js";
+import { hasTag, normalizeTag } from "./tags.js";
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Rank constant of reciprocal rank fusion; larger values flatten the ranking.
+ */
+const RRF_K = 60;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+/**
+ * How long an index built from a full listing is reused.
+ */
+const INDEX_TTL_MS = 60_000;
+
+const NOTE_FLAGS = ["archived", "recycle", "top", "shared", "todo"] as const;
+
+type NoteFlag = (typeof NOTE_FLAGS)[number];
+
+const FLAG_ALIASES: Record<string, NoteFlag> = { share: "shared", pinned: "top" };
+
+type Clause = { negated: boolean } & (
+  | { kind: "term"; term: string }
+  | { kind: "prefix"; prefix: string }
+  | { kind: "phrase"; terms: string[] }
+  | { kind: "tag"; tag: string }
+  | { kind: "type"; type: number }
+  | { kind: "before"; time: number }
+  | { kind: "after"; time: number }
+  | { kind: "is"; flag: NoteFlag }
+);
+
+/**
+ * A parsed query: every group must match, and a group matches if any of its
+ * clauses does (clauses joined with OR share a group).
+ */
+export interface ParsedQuery {
+  groups: Clause[][];
+  /**
+   * The text part of the query without filters, for Blinko's AI search.
+   */
+  text: string;
+}
+
+export interface SearchHit {
+  note: Note;
+  score: number;
+  snippet: string;
+  /**
+   * Which searches found the note (hybrid mode only lists both).
+   */
+  sources: ("local" | "ai")[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedNote {
+  note: Note;
+  tokens: Token[];
+  positions: Map<string, number[]>;
+}
+
+/**
+ * Split text into lowercase word tokens with their offsets.
+ */
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD_PATTERN)].map((match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+const TYPE_NAMES: Record<string, number> = { flash: 0, note: 1, normal: 1, todo: 2 };
+
+/**
+ * Parse the date of a before: or after: filter. A date (YYYY-MM-DD) stands
+ * for the start of that day in the formatter's time zone; a full timestamp
+ * is taken as is.
+ */
+function parseDateFilter(name: string, value: string, formatter: NoteFormatter): number {
+  const invalid = new Error(`Invalid date in query: ${name}:${value}. Use YYYY-MM-DD.`);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    try {
+      return formatter.dayRange(value).start.getTime();
+    } catch {
+      throw invalid;
+    }
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw invalid;
+  }
+  return time;
+}
+
+/**
+ * Parse one filter (e.g. "type:todo") into a clause.
+ */
+function parseFilter(name: string, value: string, negated: boolean, formatter: NoteFormatter): Clause {
+  switch (name) {
+    case "tag":
+      return { negated, kind: "tag", tag: normalizeTag(value) };
+    case "type": {
+      const type = TYPE_NAMES[value.toLowerCase()] ?? (["0", "1", "2"].includes(value) ? Number(value) : undefined);
+      if (type === undefined) {
+        throw new Error(`Unknown note type in query: type:${value}. Use flash, note or todo.`);
+      }
+      return { negated, kind: "type", type };
+    }
+    case "before":
+      return { negated, kind: "before", time: parseDateFilter(name, value, formatter) };
+    case "after":
+      return { negated, kind: "after", time: parseDateFilter(name, value, formatter) };
+    default: {
+      const lower = value.toLowerCase();
+      const flag = FLAG_ALIASES[lower] ?? lower;
+      if (!NOTE_FLAGS.includes(flag as NoteFlag)) {
+        throw new Error(`Unknown flag in query: is:${value}. Use ${NOTE_FLAGS.map((f) => `is:${f}`).join(", ")}.`);
+      }
+      return { negated, kind: "is", flag: flag as NoteFlag };
+    }
+  }
+}
+
+/**
+ * Turn free text into a term, prefix or phrase clause.
+ */
+function parseText(raw: string, negated: boolean): Clause | undefined {
+  const quoted = raw.startsWith('"');
+  const prefix = !quoted && raw.endsWith("*");
+  const terms = tokenize(raw).map((token) => token.term);
+  if (terms.length === 0) {
+    return undefined;
+  }
+  if (terms.length > 1) {
+    return { negated, kind: "phrase", terms };
+  }
+  return prefix ? { negated, kind: "prefix", prefix: terms[0] } : { negated, kind: "term", term: terms[0] };
+}
+
+/**
+ * Parse a query such as `"weekly review" proj* tag:work -is:archived after:2024-01-01`.
+ * Words are ANDed unless joined with OR; a leading "-" excludes matches.
+ * Filters: tag:<tag>, type:flash|note|todo, before:<date>, after:<date> (on or
+ * after), is:archived|recycle|top|shared|todo. Archived and recycled notes are
+ * only searched when an is:archived or is:recycle filter asks for them.
+ * @param formatter - Time zone in which the dates of before: and after: are calendar days.
+ */
+export function parseQuery(query: string, formatter: NoteFormatter): ParsedQuery {
+  const groups: Clause[][] = [];
+  const text: string[] = [];
+  let joinWithPrevious = false;
+
+  for (const match of query.matchAll(/(-?)(?:(tag|type|before|after|is):)?("[^"]*"?|\S+)/giu)) {
+    const [raw, minus, filterName, value] = match;
+    if (raw === "OR") {
+      joinWithPrevious = groups.length > 0;
+      continue;
+    }
+    if (raw === "AND") {
+      continue;
+    }
+
+    const negated = minus === "-";
+    const clause = filterName
+      ? parseFilter(filterName.toLowerCase(), value.replace(/^"|"$/g, ""), negated, formatter)
+      : parseText(value, negated);
+    if (!clause) {
+      continue;
+    }
+    if (!filterName && !negated) {
+      text.push(value);
+    }
+
+    const previous = groups[groups.length - 1];
+    if (joinWithPrevious && !negated && !previous[0].negated) {
+      previous.push(clause);
+    } else {
+      groups.push([clause]);
+    }
+    joinWithPrevious = false;
+  }
+
+  return { groups, text: text.join(" ") };
+}
+
+/**
+ * Tokenize a note and record the positions of each term.
+ */
+function indexNote(note: Note): IndexedNote {
+  const tokens = tokenize(note.content);
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, i) => {
+    const list = positions.get(token.term);
+    if (list) {
+      list.push(i);
+    } else {
+      positions.set(token.term, [i]);
+    }
+  });
+  return { note, tokens, positions };
+}
+
+function hasFlag(note: Note, flag: NoteFlag): boolean {
+  switch (flag) {
+    case "archived": return note.isArchived;
+    case "recycle": return note.isRecycle;
+    case "top": return note.isTop;
+    case "shared": return note.isShare;
+    case "todo": return note.type === 2;
+  }
+}
+
+/**
+ * Check a filter clause against a note; text clauses always pass.
+ */
+function matchesFilter(note: Note, clause: Clause): boolean {
+  switch (clause.kind) {
+    case "tag": return hasTag(note.content, clause.tag);
+    case "type": return note.type === clause.type;
+    case "before": return Date.parse(note.createdAt) < clause.time;
+    case "after": return Date.parse(note.createdAt) >= clause.time;
+    case "is": return hasFlag(note, clause.flag);
+    default: return true;
+  }
+}
+
+function isFilter(clause: Clause): boolean {
+  return clause.kind !== "term" && clause.kind !== "prefix" && clause.kind !== "phrase";
+}
+
+/**
+ * Check the filters of a query (and the default exclusion of archived and
+ * recycled notes) against a note, ignoring its text clauses.
+ */
+export function passesFilters(note: Note, query: ParsedQuery): boolean {
+  const clauses = query.groups.flat();
+  const asks = (flag: NoteFlag) => clauses.some((c) => c.kind === "is" && c.flag === flag && !c.negated);
+  if ((note.isArchived && !asks("archived")) || (note.isRecycle && !asks("recycle"))) {
+    return false;
+  }
+
+  return query.groups.every((group) => {
+    const filters = group.filter(isFilter);
+    if (filters.length < group.length) {
+      // Groups with text are checked by the index
+      return true;
+    }
+    return filters.some((clause) => matchesFilter(note, clause) !== clause.negated);
+  });
+}
+
+export class SearchIndex {
+  private readonly docs: IndexedNote[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  /**
+   * Index notes for search.
+   */
+  constructor(notes: Note[]) {
+    this.docs = notes.map(indexNote);
+    for (const doc of this.docs) {
+      for (const term of doc.positions.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    this.averageLength = this.docs.reduce((sum, doc) => sum + doc.tokens.length, 0) / Math.max(1, this.docs.length);
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  /**
+   * Match a text clause against a note.
+   * @returns The matched index terms, or undefined if the clause does not match.
+   */
+  private matchText(doc: IndexedNote, clause: Clause): string[] | undefined {
+    switch (clause.kind) {
+      case "term":
+        return doc.positions.has(clause.term) ? [clause.term] : undefined;
+      case "prefix": {
+        const terms = [...doc.positions.keys()].filter((term) => term.startsWith(clause.prefix));
+        return terms.length ? terms : undefined;
+      }
+      case "phrase": {
+        const starts = doc.positions.get(clause.terms[0]) ?? [];
+        const found = starts.some((start) =>
+          clause.terms.every((term, k) => doc.tokens[start + k]?.term === term)
+        );
+        return found ? clause.terms : undefined;
+      }
+      default:
+        return matchesFilter(doc.note, clause) ? [] : undefined;
+    }
+  }
+
+  /**
+   * Match a whole query against a note.
+   * @returns The matched index terms, or undefined if the note does not match.
+   */
+  private match(doc: IndexedNote, query: ParsedQuery): string[] | undefined {
+    if (!passesFilters(doc.note, query)) {
+      return undefined;
+    }
+
+    const matched: string[] = [];
+    for (const group of query.groups) {
+      const results = group.map((clause) => this.matchText(doc, clause));
+      if (group[0].negated) {
+        if (results[0] !== undefined) {
+          return undefined;
+        }
+        continue;
+      }
+      if (results.every((result) => result === undefined)) {
+        return undefined;
+      }
+      results.forEach((result) => matched.push(...(result ?? [])));
+    }
+    return [...new Set(matched)];
+  }
+
+  /**
+   * BM25 score of a note for the given terms.
+   */
+  private score(doc: IndexedNote, terms: string[]): number {
+    const n = this.docs.length;
+    const lengthNorm = 1 - BM25_B + BM25_B * (doc.tokens.length / (this.averageLength || 1));
+    return terms.reduce((sum, term) => {
+      const tf = doc.positions.get(term)?.length ?? 0;
+      const df = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      return sum + idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+    }, 0);
+  }
+
+  /**
+   * Search the index.
+   * Notes are ranked by BM25 score; filter-only queries list the most recently
+   * updated notes first.
+   */
+  search(query: ParsedQuery, limit: number): SearchHit[] {
+    const hits: SearchHit[] = [];
+    for (const doc of this.docs) {
+      const terms = this.match(doc, query);
+      if (terms) {
+        hits.push({ note: doc.note, score: this.score(doc, terms), snippet: highlight(doc, terms), sources: ["local"] });
+      }
+    }
+    return hits
+      .sort((a, b) => b.score - a.score || b.note.updatedAt.localeCompare(a.note.updatedAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Snippet of any note, highlighting the text terms of a query.
+   */
+  snippet(note: Note, query: ParsedQuery): string {
+    const doc = indexNote(note);
+    const terms = query.groups.flat().flatMap((clause) => (clause.negated ? [] : this.matchText(doc, clause) ?? []));
+    return highlight(doc, terms);
+  }
+}
+
+/**
+ * Cut a snippet around the first match, with matched words in bold.
+ */
+function highlight(doc: IndexedNote, terms: string[]): string {
+  const content = doc.note.content;
+  const wanted = new Set(terms);
+  const matches = doc.tokens.filter((token) => wanted.has(token.term));
+
+  let start = matches.length ? Math.max(0, matches[0].start - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    // Start at a word boundary
+    const space = content.lastIndexOf(" ", start);
+    start = space === -1 ? 0 : space + 1;
+  }
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  let snippet = "";
+  let cursor = start;
+  for (const token of matches) {
+    if (token.start < start || token.end > end) {
+      continue;
+    }
+    snippet += `${content.slice(cursor, token.start)}**${content.slice(token.start, token.end)}**`;
+    cursor = token.end;
+  }
+  snippet += content.slice(cursor, end);
+
+  return `${start > 0 ? "…" : ""}${snippet.replace(/\s+/g, " ").trim()}${end < content.length ? "…" : ""}`;
+}
+
+const indexCache = new WeakMap<BlinkoClient, { index: SearchIndex; version: string | number; builtAt: number }>();
+
+/**
+ * Get the search index for a client: built from the offline mirror when
+ * enabled (and rebuilt when it changes), otherwise from a full listing of
+ * active, archived and recycled notes.
+ */
+export async function getSearchIndex(blinko: BlinkoClient): Promise<SearchIndex> {
+  const cached = indexCache.get(blinko);
+
+  if (blinko instanceof MirroredBlinkoClient) {
+    const { notes, revision } = await blinko.mirroredNotes();
+    if (cached?.version === revision) {
+      return cached.index;
+    }
+    const index = new SearchIndex(notes);
+    indexCache.set(blinko, { index, version: revision, builtAt: Date.now() });
+    return index;
+  }
+
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+    return cached.index;
+  }
+  const notes: Note[] = [];
+  for (const params of [{ searchText: "" }, { searchText: "", isArchived: true }, { searchText: "", isRecycle: true }]) {
+    for await (const note of blinko.iterateNotes(params)) {
+      notes.push(note);
+    }
+  }
+  const index = new SearchIndex(notes);
+  indexCache.set(blinko, { index, version: "listing", builtAt: Date.now() });
+  return index;
+}
+
+/**
+ * Merge local and AI results by reciprocal rank fusion, deduplicated by note ID.
+ * @returns The merged hits; their score is the fused score.
+ */
+export function mergeHybrid(index: SearchIndex, query: ParsedQuery, local: SearchHit[], ai: Note[], limit: number): SearchHit[] {
+  const merged = new Map<number, SearchHit>();
+  local.forEach((hit, rank) => {
+    merged.set(hit.note.id, { ...hit, score: 1 / (RRF_K + rank + 1) });
+  });
+  ai.filter((note) => passesFilters(note, query)).forEach((note, rank) => {
+    const score = 1 / (RRF_K + rank + 1);
+    const existing = merged.get(note.id);
+    if (existing) {
+      existing.score += score;
+      existing.sources.push("ai");
+    } else {
+      merged.set(note.id, { note, score, snippet: index.snippet(note, query), sources: ["ai"] });
+    }
+  });
+  return [...merged.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,125 @@
+/**
+ * Factory for the Blinko MCP server.
+ * Each transport connection needs its own Server instance, so the HTTP
+ * transport creates one per client session while stdio creates exactly one.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AuditLog } from "./audit.js";
+import { DuplicateChecker, DuplicateOptions } from "./duplicates.js";
+import { LocalFiles, PATH_TOOLS } from "./files.js";
+import { DisplayOptions, NoteFormatter } from "./format.js";
+import { BlinkoInstances } from "./instances.js";
+import { PolicyConfig, ToolPolicy } from "./policy.js";
+import { registerPromptHandlers } from "./prompts.js";
+import { DEFAULT_RECURRENCE_STATE, RecurrenceState } from "./recurrence.js";
+import { registerResourceHandlers } from "./resources.js";
+import { TemplateLibrary } from "./templates.js";
+import { registerToolHandlers } from "./tools.js";
+
+export interface InstanceConfig {
+  domain: string;
+  apiKey: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /**
+   * Directory of the local offline mirror; the mirror is disabled when unset.
+   */
+  mirrorDir?: string;
+  /**
+   * Interval between background mirror syncs in milliseconds (default: 5 minutes, 0 disables).
+   */
+  mirrorSyncIntervalMs?: number;
+}
+
+export interface BlinkoConfig extends InstanceConfig {
+  policy?: PolicyConfig;
+  /**
+   * Time zone and locale of dates in tool results.
+   */
+  display?: DisplayOptions;
+  /**
+   * Path of the JSONL audit log of changes made by tool calls; changes are not logged when unset.
+   */
+  auditLog?: string;
+  /**
+   * Directory of note template files; templates stored as notes tagged #template are used either way.
+   */
+  templatesDir?: string;
+  /**
+   * Near-duplicate check of notes created by the upsert tools.
+   */
+  duplicates?: DuplicateOptions;
+  /**
+   * Directory the tools that read or write local files are limited to; any path is allowed when unset.
+   */
+  fileRoot?: string;
+  /**
+   * Turn off local file paths unless fileRoot is set, as the HTTP transport does.
+   */
+  requireFileRoot?: boolean;
+  /**
+   * Path of the JSON file recording the generated recurring todos (default: ~/.mcp-server-blinko/recurring.json).
+   */
+  recurrenceState?: string;
+  /**
+   * Name of the instance configured by the top-level settings (default: "default").
+   */
+  instanceName?: string;
+  /**
+   * Further named instances, selected with the instance argument of the tools.
+   */
+  instances?: Record<string, InstanceConfig>;
+}
+
+/**
+ * Create an MCP server with capabilities for tools (to write notes to Blinko),
+ * resources (to attach notes as context) and prompts (for review workflows).
+ * @param config - Blinko connection settings.
+ */
+export function createServer(config: BlinkoConfig): Server {
+  const server = new Server(
+    {
+      name: "mcp-server-blinko-extended",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+        },
+        prompts: {},
+      },
+    }
+  );
+
+  // Clients are created on first use. Changes made through the default
+  // instance are reported to resource subscribers.
+  const instances = new BlinkoInstances(config, (noteId) => resources.notifyNoteChanged(noteId));
+  const getDefaultClient = () => instances.get();
+
+  const templates = new TemplateLibrary(config.templatesDir, config.display?.timeZone);
+  const formatter = new NoteFormatter(config.display);
+  const files = new LocalFiles(config.fileRoot, Boolean(config.fileRoot) || !config.requireFileRoot);
+  const policy = files.enabled ? config.policy : { ...config.policy, denyTools: [...(config.policy?.denyTools ?? []), ...PATH_TOOLS] };
+
+  const resources = registerResourceHandlers(server, getDefaultClient, formatter);
+  registerPromptHandlers(server, getDefaultClient, templates, formatter);
+  // Confirmation tokens live in the policy, so each session gets its own
+  registerToolHandlers(
+    server,
+    instances,
+    new ToolPolicy(policy),
+    formatter,
+    templates,
+    new DuplicateChecker(config.duplicates),
+    new RecurrenceState(config.recurrenceState ?? DEFAULT_RECURRENCE_STATE),
+    files,
+    config.auditLog ? new AuditLog(config.auditLog) : undefined
+  );
+
+  instances.startMirrors();
+
+  return server;
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractTags, hasTag, renameTag } from "./tags.js";
+
+describe("extractTags", () => {
+  it("finds tags after whitespace and drops trailing punctuation", () => {
+    assert.deepEqual(extractTags("#idea Ship it (see #project/web). Not an#anchor, #idea again"), ["idea", "project/web"]);
+  });
+});
+
+describe("hasTag", () => {
+  it("matches nested tags below the tag", () => {
+    assert.equal(hasTag("Plan #project/web", "#project"), true);
+    assert.equal(hasTag("Plan #projects", "project"), false);
+  });
+});
+
+describe("renameTag", () => {
+  it("renames the tag and the tags nested below it", () => {
+    assert.equal(renameTag("#project and #project/sub", "project", "work"), "#work and #work/sub");
+  });
+
+  it("leaves longer tags with the same prefix alone", () => {
+    assert.equal(renameTag("#projects #project-x #project", "project", "work"), "#projects #project-x #work");
+  });
+
+  it("keeps punctuation after the tag", () => {
+    assert.equal(renameTag("Done for #project.", "project", "work"), "Done for #work.");
+  });
+
+  it("escapes regular expression characters in the tag", () => {
+    assert.equal(renameTag("#c++ and #cxx", "c++", "cpp"), "#cpp and #cxx");
+  });
+
+  it("does not touch text that only looks like a tag", () => {
+    assert.equal(renameTag("page#project", "project", "work"), "page#project");
+  });
+
+  it("removes duplicates created by the rename", () => {
+    assert.equal(renameTag("#a #b", "a", "b"), "#b");
+  });
+
+  it("returns the content unchanged without a match", () => {
+    const content = "No tags here";
+    assert.equal(renameTag(content, "project", "work"), content);
+  });
+});
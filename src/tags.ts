@@ -0,0 +1,91 @@
+/**
+ * Hashtag parsing and rewriting for note content.
+ *
+ * A tag is "#" followed by any non-whitespace characters, at the start of the
+ * content or after whitespace, e.g. "#claude", "#project:my-project" or the
+ * nested "#project/sub". Tags are handled without their leading "#".
+ * A nested tag belongs to each of its parents: "project/sub" is within "project".
+ */
+
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/gu;
+
+/**
+ * Punctuation that ends a sentence rather than belonging to the tag.
+ */
+const TRAILING_PUNCTUATION = /[.,;!?)\]]+$/u;
+
+/**
+ * Normalize a tag given by a user: trims whitespace, the leading "#" and a trailing "/".
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Extract the distinct tags of a note's content, in order of first appearance.
+ */
+export function extractTags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const tag = match[2].replace(TRAILING_PUNCTUATION, "");
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return [...tags];
+}
+
+/**
+ * Check whether a tag is the given tag or nested below it.
+ */
+export function isWithinTag(tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(`${parent}/`);
+}
+
+/**
+ * Check whether content carries a tag, including tags nested below it.
+ */
+export function hasTag(content: string, tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  return extractTags(content).some((t) => isWithinTag(t, wanted));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Rename a tag in content, along with the tags nested below it.
+ * "#project/sub" becomes "#work/sub" when renaming "project" to "work".
+ * If the new tag then appears more than once, later duplicates are removed.
+ * @returns The rewritten content (unchanged if the tag does not occur).
+ */
+export function renameTag(content: string, from: string, to: string): string {
+  const source = normalizeTag(from);
+  const target = normalizeTag(to);
+  if (!source || !target || source === target) {
+    return content;
+  }
+
+  const pattern = new RegExp(`(^|\\s)#${escapeRegExp(source)}(?=$|[\\s/.,;!?)\\]])`, "gu");
+  if (!pattern.test(content)) {
+    return content;
+  }
+  pattern.lastIndex = 0;
+  return removeDuplicateTag(content.replace(pattern, `$1#${target}`), target);
+}
+
+/**
+ * Remove every occurrence of an exact tag after the first one.
+ */
+function removeDuplicateTag(content: string, tag: string): string {
+  const pattern = new RegExp(`(^|[ \\t]+|(?<=\\n))#${escapeRegExp(tag)}(?=$|[\\s.,;!?)\\]])`, "gu");
+  let seen = false;
+  return content.replace(pattern, (match) => {
+    if (!seen) {
+      seen = true;
+      return match;
+    }
+    return "";
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * Note templates, read from Markdown files in a local directory or from
+ * Blinko notes tagged #template.
+ *
+ * Templates are Markdown with optional front matter:
+ *
+ * ```markdown
+ * ---
+ * name: meeting
+ * description: Meeting notes
+ * type: note
+ * ---
+ * # {{title}}
+ * {{date}} · {{project}}
+ * {{#if attendees}}Attendees: {{attendees}}{{/if}}
+ * ```
+ *
+ * - "{{name}}" inserts a variable. "title" is the note title given by the
+ *   caller; date (YYYY-MM-DD), time (HH:MM) and weekday are set from the
+ *   current time in the configured time zone.
+ * - "{{#if name}}...{{else}}...{{/if}}" and "{{#unless name}}...{{/unless}}"
+ *   keep a section depending on whether a variable is set; they may nest.
+ * - type (flash, note or todo, or 0-2) is the default note type.
+ * - recurrence, start and title make a recurring todo template, see
+ *   recurrence.ts; recurring templates default to the todo type.
+ *
+ * A note template is named by its front matter, its "#template/<name>" tag or
+ * its first line, and defaults to the type of the note. Its #template tags
+ * are left out of the rendered content. Local files win over notes of the
+ * same name.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { BlinkoClient } from "./blinko.js";
+import { parseFrontMatter } from "./frontmatter.js";
+import { noteTitle } from "./links.js";
+import { extractTags, isWithinTag } from "./tags.js";
+
+const TEMPLATE_TAG = "template";
+const TEMPLATE_TAG_PATTERN = /(^|[ \t])#template(?:\/[^\s#]*)?(?=\s|$)/gm;
+const PLACEHOLDER_PATTERN = /\{\{\s*(?!else\s*\}\})([A-Za-z_][\w-]*)\s*\}\}/g;
+const CONDITION_PATTERN = /\{\{#(if|unless)\s+([A-Za-z_][\w-]*)\s*\}\}/g;
+/**
+ * An innermost conditional section: one that holds no other section.
+ */
+const SECTION_PATTERN = /\{\{#(if|unless)\s+([A-Za-z_][\w-]*)\s*\}\}((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}/;
+const ELSE_PATTERN = /\{\{else\}\}/;
+
+/**
+ * Variables set from the current time.
+ */
+const DATE_VARIABLES = ["date", "time", "weekday"];
+
+const TYPE_NAMES: Record<string, 0 | 1 | 2> = { flash: 0, note: 1, normal: 1, todo: 2 };
+
+export interface Template {
+  name: string;
+  description: string;
+  /**
+   * Default type of notes created from the template.
+   */
+  type: 0 | 1 | 2;
+  source: "file" | "note";
+  /**
+   * File path or note ID the template was read from.
+   */
+  location: string;
+  body: string;
+  /**
+   * Recurrence rule of a recurring template, unparsed so a bad rule does not hide the template.
+   */
+  recurrence?: string;
+  /**
+   * First date (YYYY-MM-DD) of a recurring template.
+   */
+  start?: string;
+  /**
+   * Title of the notes generated by a recurring template.
+   */
+  title?: string;
+}
+
+export interface TemplateVariable {
+  name: string;
+  /**
+   * False if the template renders without the variable, e.g. when it is only
+   * used in conditional sections.
+   */
+  required: boolean;
+}
+
+/**
+ * Parse a note type given as 0-2 or as flash, note or todo.
+ */
+export function parseNoteType(value: unknown): 0 | 1 | 2 | undefined {
+  if (value === 0 || value === 1 || value === 2) {
+    return value;
+  }
+  return TYPE_NAMES[String(value ?? "").trim().toLowerCase()];
+}
+
+/**
+ * Make a template name from free text, e.g. "Bug Log!" -> "bug-log".
+ */
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * The recurrence settings of a template's front matter.
+ */
+function recurringFields(data: Record<string, unknown>): Pick<Template, "recurrence" | "start" | "title"> {
+  const text = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : String(value));
+  return { recurrence: text(data.recurrence), start: text(data.start), title: text(data.title) };
+}
+
+/**
+ * Render the conditional sections of a template, innermost first.
+ */
+function renderSections(body: string, isSet: (name: string) => boolean): string {
+  let result = body;
+  let match: RegExpExecArray | null;
+  while ((match = SECTION_PATTERN.exec(result))) {
+    const [section, kind, name, inner] = match;
+    const [then, otherwise = ""] = inner.split(ELSE_PATTERN);
+    const keep = (kind === "if") === isSet(name) ? then : otherwise;
+    result = result.slice(0, match.index) + keep + result.slice(match.index + section.length);
+  }
+  return result;
+}
+
+/**
+ * The variables a template uses, including title but not the date variables.
+ */
+export function templateVariables(template: Template): TemplateVariable[] {
+  const names = new Set([
+    ...[...template.body.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]),
+    ...[...template.body.matchAll(CONDITION_PATTERN)].map((m) => m[2]),
+  ]);
+  // Whatever is still used with every variable unset is required
+  const bare = renderSections(template.body, () => false);
+  const required = new Set([...bare.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]));
+  return [...names]
+    .filter((name) => !DATE_VARIABLES.includes(name))
+    .map((name) => ({ name, required: required.has(name) }));
+}
+
+/**
+ * Render a template.
+ * @param variables - Custom variables, and title.
+ * @param now - Time for the date variables.
+ * @param timeZone - Time zone for the date variables (default: the process time zone).
+ * @throws If a variable used outside a conditional section is missing.
+ */
+export function renderTemplate(
+  template: Template,
+  variables: Record<string, string>,
+  now = new Date(),
+  timeZone?: string
+): string {
+  const part = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat("en-CA", { timeZone: timeZone || undefined, ...options }).format(now);
+  const values: Record<string, string> = {
+    date: part({ year: "numeric", month: "2-digit", day: "2-digit" }),
+    time: part({ hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
+    weekday: new Intl.DateTimeFormat("en-US", { timeZone: timeZone || undefined, weekday: "long" }).format(now),
+    ...Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== "")),
+  };
+
+  const body = renderSections(template.body, (name) => values[name] !== undefined);
+  const missing = [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]).filter((name) => values[name] === undefined))];
+  if (missing.length > 0) {
+    throw new Error(`Template "${template.name}" needs the variable(s): ${missing.join(", ")}`);
+  }
+  return body
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name])
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export class TemplateLibrary {
+  private readonly dir?: string;
+  readonly timeZone?: string;
+
+  /**
+   * @param dir - Directory of template files; only note templates are used when unset.
+   * @param timeZone - Time zone of the date variables.
+   */
+  constructor(dir?: string, timeZone?: string) {
+    this.dir = dir;
+    this.timeZone = timeZone;
+  }
+
+  /**
+   * Read the templates of the local directory.
+   */
+  private async fileTemplates(): Promise<Template[]> {
+    if (!this.dir) {
+      return [];
+    }
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((file) => extname(file).toLowerCase() === ".md").sort();
+    } catch (e) {
+      throw new Error(`Could not read the templates directory ${this.dir}: ${(e as Error).message}`);
+    }
+
+    return Promise.all(files.map(async (file) => {
+      const path = join(this.dir!, file);
+      const { data, body } = parseFrontMatter(await readFile(path, "utf8"));
+      return {
+        name: slugify(String(data.name ?? basename(file, extname(file)))),
+        description: data.description ? String(data.description) : `Template ${file}`,
+        type: parseNoteType(data.type) ?? (data.recurrence ? 2 : 1),
+        source: "file" as const,
+        location: path,
+        body,
+        ...recurringFields(data),
+      };
+    }));
+  }
+
+  /**
+   * Read the templates stored as Blinko notes tagged #template.
+   */
+  private async noteTemplates(blinko: BlinkoClient): Promise<Template[]> {
+    const templates: Template[] = [];
+    for await (const note of blinko.iterateNotes({ searchText: `#${TEMPLATE_TAG}`, isUseAiQuery: false })) {
+      const tags = extractTags(note.content).filter((tag) => isWithinTag(tag, TEMPLATE_TAG));
+      if (tags.length === 0) {
+        continue;
+      }
+      const { data, body } = parseFrontMatter(note.content);
+      const content = body.replace(TEMPLATE_TAG_PATTERN, "$1").replace(/[ \t]+$/gm, "");
+      const tagName = tags.find((tag) => tag !== TEMPLATE_TAG)?.slice(TEMPLATE_TAG.length + 1);
+      templates.push({
+        name: slugify(String(data.name ?? tagName ?? noteTitle({ content }, 60))) || `note-${note.id}`,
+        description: data.description ? String(data.description) : `Template from note ${note.id}`,
+        type: parseNoteType(data.type) ?? (data.recurrence ? 2 : parseNoteType(note.type) ?? 1),
+        source: "note",
+        location: String(note.id),
+        body: content,
+        ...recurringFields(data),
+      });
+    }
+    return templates;
+  }
+
+  /**
+   * List the templates from files and notes, by name.
+   * @param blinko - Client of the instance whose note templates are listed.
+   */
+  async list(blinko: BlinkoClient): Promise<Template[]> {
+    const byName = new Map<string, Template>();
+    for (const template of [...await this.fileTemplates(), ...await this.noteTemplates(blinko)]) {
+      if (!byName.has(template.name)) {
+        byName.set(template.name, template);
+      }
+    }
+    return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find a template by name.
+   */
+  async get(blinko: BlinkoClient, name: string): Promise<Template> {
+    const templates = await this.list(blinko);
+    const template = templates.find((t) => t.name === slugify(name));
+    if (!template) {
+      throw new Error(`Template "${name}" not found. Available templates: ${templates.map((t) => t.name).join(", ") || "none"}`);
+    }
+    return template;
+  }
+}
@@ -0,0 +1,3279 @@
+/**
+ * MCP tools for writing, updating, deleting, archiving and searching Blinko notes.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_ATTACHMENT_BYTES,
+  decodeBase64File,
+  detectMimeType,
+  findAttachment,
+  isInlineImage,
+  isText,
+  MAX_ATTACHMENT_BYTES,
+  MAX_INLINE_IMAGE_BYTES,
+  readLocalFile,
+  saveFile,
+} from "./attachments.js";
+import { BlinkoClient, Note } from "./blinko.js";
+import {
+  AuditChange,
+  auditContext,
+  AuditEntry,
+  AuditLog,
+  describeEntry,
+  laterChanges,
+  undoableEntries,
+  undoEntry,
+  undoneEntryIds,
+} from "./audit.js";
+import { bulkResult, NoteSelection, resolveNoteIds, runBulk, selectionNotice } from "./bulk.js";
+import {
+  appendChecklistItems,
+  ChecklistItem,
+  compareChecklistItems,
+  describeChecklistItem,
+  findChecklistItem,
+  NewChecklistItem,
+  parseChecklist,
+  PRIORITIES,
+  Priority,
+  setItemChecked,
+} from "./checklist.js";
+import {
+  BlinkoApiError,
+  BlinkoAuthError,
+  BlinkoConflictError,
+  BlinkoNetworkError,
+  BlinkoNotFoundError,
+  BlinkoRateLimitError,
+  BlinkoServerError,
+  BlinkoValidationError,
+} from "./errors.js";
+import { copyNotes, formatCopyReport } from "./copy.js";
+import {
+  clusterDuplicates,
+  DEFAULT_DUPLICATE_SCAN,
+  DuplicateChecker,
+  duplicateContext,
+  DuplicateMatch,
+  MAX_DUPLICATE_SCAN,
+  mergeContents,
+  mergeNotes,
+  parseDuplicateMode,
+  parseThreshold,
+} from "./duplicates.js";
+import { exportNotes, parseExportSelector } from "./export.js";
+import { LocalFiles } from "./files.js";
+import { formatImportSummary, importNotes } from "./import.js";
+import {
+  addLink,
+  buildNoteGraph,
+  DEFAULT_GRAPH_NODES,
+  extractLinks,
+  findBacklinks,
+  graphToMermaid,
+  MAX_GRAPH_DEPTH,
+  MAX_GRAPH_NODES,
+  noteTitle,
+  outgoingLinks,
+  removeLink,
+} from "./links.js";
+import { FORMAT_PROPERTY, formatResult, NOTE_DETAILS_SCHEMA, NoteFormatter, notesOutputSchema, NOTE_SCHEMA, parseFormat, typeLabel } from "./format.js";
+import { BlinkoInstances } from "./instances.js";
+import { describeStaleness, formatSyncResult, MirroredBlinkoClient, OfflineNotice, offlineContext } from "./mirror.js";
+import { decodeCursor, encodeCursor, firstCursor, searchPage } from "./pagination.js";
+import { appendText, applyUnifiedDiff, assertUnchanged, editNote, PATCH_FUZZ_LINES, prependText, replaceSection, replaceText } from "./patch.js";
+import { DESTRUCTIVE_TOOLS, ToolPolicy } from "./policy.js";
+import { buildTodoReport, formatTodoReport } from "./report.js";
+import { getSearchIndex, mergeHybrid, parseQuery } from "./search.js";
+import { extractTags, hasTag, isWithinTag, normalizeTag, renameTag } from "./tags.js";
+import { parseNoteType, renderTemplate, TemplateLibrary, templateVariables } from "./templates.js";
+import { DEFAULT_LOOKBACK_DAYS, formatGenerationReport, generateDueTodos, MAX_LOOKBACK_DAYS, RecurrenceState } from "./recurrence.js";
+
+/**
+ * Input schema properties shared by the bulk tools.
+ * Notes are selected by noteIds or selector, exactly one of which is required.
+ */
+const BULK_SELECTION_PROPERTIES = {
+  noteIds: {
+    type: "array",
+    items: { type: "number" },
+    description: "IDs of the notes to process. Use either noteIds or selector.",
+  },
+  selector: {
+    type: "object",
+    description: "Search selecting the notes to process, with the same fields as search_blinko_notes (searchText, type, isArchived, isRecycle, startDate, endDate, hasTodo, tags, size). Exact text matching is used unless isUseAiQuery is true. size is the most notes selected, after the tags filter: 100 by default, at most 1000; the result says when more notes match. Use either noteIds or selector.",
+    properties: {
+      searchText: { type: "string" },
+      size: { type: "number" },
+      type: { type: "number", enum: [-1, 0, 1, 2] },
+      isArchived: { type: "boolean" },
+      isRecycle: { type: "boolean" },
+      isUseAiQuery: { type: "boolean" },
+      startDate: { type: "string" },
+      endDate: { type: "string" },
+      hasTodo: { type: "boolean" },
+      tags: { type: "array", items: { type: "string" } },
+    },
+  },
+  concurrency: {
+    type: "number",
+    description: "Maximum number of notes processed in parallel (default: 4, max: 10)",
+  },
+};
+
+/**
+ * Input schema properties shared by the destructive tools.
+ */
+const CONFIRMATION_PROPERTIES = {
+  dryRun: {
+    type: "boolean",
+    description: "Only preview the notes that would be removed, without changing anything (default: false)",
+  },
+  confirmationToken: {
+    type: "string",
+    description: "Token returned by a previous call with the same arguments. Required to actually run the operation; call without it first to get a preview and a token.",
+  },
+};
+
+/**
+ * Input schema property of the tools that edit note content.
+ */
+const EXPECTED_UPDATED_AT_PROPERTY = {
+  expectedUpdatedAt: {
+    type: "string",
+    description: "updatedAt of the note when you read it (ISO 8601, from the structuredContent of get_blinko_note or the result of the previous edit). The edit fails with a conflict error if the note changed since. Recommended whenever the edit is based on content you read.",
+  },
+};
+
+/**
+ * Input schema property of the delete tools, for servers that delete to the recycle bin.
+ */
+const TRASH_PROPERTIES = {
+  permanent: {
+    type: "boolean",
+    description: "Delete permanently instead of moving to the recycle bin, when the server deletes to the recycle bin by default (default: false)",
+  },
+};
+
+/**
+ * JSON schema of a linked note in list_blinko_note_links results.
+ */
+const NOTE_LINK_SCHEMA = {
+  type: "object",
+  properties: { id: { type: "number" }, title: { type: "string" } },
+  required: ["id", "title"],
+};
+
+/**
+ * JSON schema of the metrics of one project in a todo report.
+ */
+const PROJECT_METRICS_SCHEMA = {
+  type: "object",
+  properties: {
+    project: { type: "string" },
+    created: { type: "number" },
+    completed: { type: "number" },
+    meanHoursToComplete: { type: ["number", "null"] },
+    open: { type: "number" },
+    aging: { type: "object", additionalProperties: { type: "number" }, description: "Open todos per age bucket (<1d, 1-7d, 7-30d, >30d)" },
+  },
+  required: ["project", "created", "completed", "meanHoursToComplete", "open", "aging"],
+};
+
+/**
+ * JSON schema of a blinko_todo_report result.
+ */
+const TODO_REPORT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    startDate: { type: "string" },
+    endDate: { type: "string" },
+    total: PROJECT_METRICS_SCHEMA,
+    projects: { type: "array", items: PROJECT_METRICS_SCHEMA },
+    throughput: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { date: { type: "string" }, created: { type: "number" }, completed: { type: "number" } },
+        required: ["date", "created", "completed"],
+      },
+    },
+  },
+  required: ["startDate", "endDate", "total", "projects", "throughput"],
+};
+
+/**
+ * JSON schema of an attachment in list_blinko_attachments results.
+ */
+const ATTACHMENT_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    path: { type: "string" },
+    type: { type: "string", description: "MIME type" },
+    size: { type: "number", description: "Size in bytes, if known" },
+  },
+  required: ["name", "path", "type"],
+};
+
+/**
+ * Error message of the audit log tools when the log is disabled.
+ */
+const AUDIT_DISABLED = "The audit log was turned off on this server (BLINKO_AUDIT_LOG or --audit_log is off), so there is nothing to list or undo.";
+
+/**
+ * Maximum number of operations blinko_undo reverts at once, and of entries listed.
+ */
+const UNDO_LIMIT = 20;
+const AUDIT_LIST_LIMIT = 200;
+
+/**
+ * Maximum number of notes shown in a destructive operation preview.
+ */
+const PREVIEW_LIMIT = 20;
+
+/**
+ * Render a one-line summary of a note for previews.
+ */
+function previewLine(note: Note): string {
+  const text = note.content.replace(/\s+/g, " ").trim();
+  return `- [ID: ${note.id}] ${text.length > 80 ? `${text.slice(0, 77)}...` : text}`;
+}
+
+/**
+ * The notes a destructive tool call would remove.
+ */
+interface DestructiveSelection extends NoteSelection {
+  /**
+   * Notes already fetched while selecting, reused by the preview.
+   */
+  notes: Note[];
+}
+
+/**
+ * Select the notes a destructive tool call would remove.
+ */
+async function selectDestructive(blinko: BlinkoClient, name: string, args: Record<string, unknown>): Promise<DestructiveSelection> {
+  if (name === "delete_blinko_note") {
+    const noteId = Number(args.noteId);
+    if (!noteId || isNaN(noteId)) {
+      throw new Error("Valid note ID is required");
+    }
+    const note = await blinko.getNote(noteId);
+    return { ids: [note.id], notes: [note], limitReached: false };
+  }
+  if (name === "clear_blinko_recycle_bin") {
+    const notes = await collectNotes(blinko.iterateNotes({ searchText: "", isRecycle: true }));
+    return { ids: notes.map((note) => note.id), notes, limitReached: false };
+  }
+  if (name === "purge_blinko_recycle_bin") {
+    const { notes, limitReached } = await selectPurge(blinko, args);
+    return { ids: notes.map((note) => note.id), notes, limitReached };
+  }
+  return { ...await resolveNoteIds(blinko, args.noteIds, args.selector), notes: [] };
+}
+
+/**
+ * List the notes a destructive tool call would remove.
+ * @returns Preview lines, starting with a summary line.
+ */
+async function previewDestructive(blinko: BlinkoClient, selection: DestructiveSelection, permanent: boolean): Promise<string[]> {
+  const known = new Map(selection.notes.map((note) => [note.id, note]));
+  const shown: Note[] = [];
+  for (const id of selection.ids.slice(0, PREVIEW_LIMIT)) {
+    try {
+      shown.push(known.get(id) ?? await blinko.getNote(id));
+    } catch {
+      shown.push({ id, content: "(could not be fetched)" } as Note);
+    }
+  }
+
+  const total = selection.ids.length;
+  return [
+    `${total} note(s) would be ${permanent ? "permanently deleted" : "moved to the recycle bin"}:`,
+    ...shown.map(previewLine),
+    ...(total > shown.length ? [`- ... and ${total - shown.length} more`] : []),
+    ...selectionNotice(selection),
+  ];
+}
+
+/**
+ * Whether two lists hold the same note IDs, in any order.
+ */
+function sameNoteIds(a: number[], b: number[]): boolean {
+  const set = new Set(a);
+  return a.length === b.length && b.every((id) => set.has(id));
+}
+
+/**
+ * Select the recycle bin notes a purge removes: trashed more than
+ * olderThanDays ago (going by updatedAt), matching the selector, or both.
+ * @returns The notes, and whether the selector matched more notes than its size.
+ */
+async function selectPurge(blinko: BlinkoClient, args: Record<string, unknown>): Promise<{ notes: Note[]; limitReached: boolean }> {
+  const olderThanDays = args.olderThanDays === undefined ? undefined : Number(args.olderThanDays);
+  if (olderThanDays !== undefined && !(olderThanDays >= 0)) {
+    throw new Error("olderThanDays must be a non-negative number");
+  }
+  if (olderThanDays === undefined && args.selector === undefined) {
+    throw new Error("olderThanDays or selector is required. Use clear_blinko_recycle_bin to empty the whole recycle bin.");
+  }
+
+  let notes = await collectNotes(blinko.iterateNotes({ searchText: "", isRecycle: true }));
+  if (olderThanDays !== undefined) {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    notes = notes.filter((note) => Date.parse(note.updatedAt) < cutoff);
+  }
+  if (args.selector === undefined) {
+    return { notes, limitReached: false };
+  }
+  // The selector only ever matches notes in the recycle bin
+  const selection = await resolveNoteIds(blinko, undefined, args.selector, { isRecycle: true });
+  const selected = new Set(selection.ids);
+  return { notes: notes.filter((note) => selected.has(note.id)), limitReached: selection.limitReached };
+}
+
+/**
+ * Collect every note of an iteration into an array.
+ */
+async function collectNotes(notes: AsyncIterable<Note>): Promise<Note[]> {
+  const result: Note[] = [];
+  for await (const note of notes) {
+    result.push(note);
+  }
+  return result;
+}
+
+/**
+ * Fetch the notes scanned by tag tools: active notes, plus archived ones if requested.
+ */
+async function scanNotes(blinko: BlinkoClient, includeArchived: boolean): Promise<Note[]> {
+  const active = await collectNotes(blinko.iterateNotes({ searchText: "" }));
+  if (!includeArchived) {
+    return active;
+  }
+  const archived = await collectNotes(blinko.iterateNotes({ searchText: "", isArchived: true }));
+  return [...active, ...archived];
+}
+
+/**
+ * Rewrite the content of every note that a rewrite function changes.
+ * Notes are updated one at a time so a failure affects only that note.
+ * @returns IDs of changed notes and the notes that failed to update.
+ */
+async function rewriteNotes(
+  blinko: BlinkoClient,
+  notes: Note[],
+  rewrite: (content: string) => string
+): Promise<{ changed: number[]; failed: { id: number; error: string }[] }> {
+  const changed: number[] = [];
+  const failed: { id: number; error: string }[] = [];
+
+  for (const note of notes) {
+    const content = rewrite(note.content);
+    if (content === note.content) {
+      continue;
+    }
+    try {
+      await blinko.updateNote(note.id, { content });
+      changed.push(note.id);
+    } catch (e) {
+      failed.push({ id: note.id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return { changed, failed };
+}
+
+/**
+ * Build the result of a tag rewrite, listing exactly which notes changed.
+ */
+function rewriteResult(summary: string, { changed, failed }: { changed: number[]; failed: { id: number; error: string }[] }) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${summary} Updated ${changed.length} note(s)${changed.length ? `: ${changed.join(", ")}` : ""}.`,
+      },
+      ...failed.map((f) => ({
+        type: "text",
+        text: `- Failed to update note ${f.id}: ${f.error}`,
+      })),
+    ],
+    isError: failed.length > 0 && changed.length === 0,
+  };
+}
+
+/**
+ * Most checklist items list_blinko_checklist lists across notes.
+ */
+const CHECKLIST_LIMIT = 500;
+
+/**
+ * Most notes get_blinko_note reads in one call.
+ */
+const GET_NOTES_LIMIT = 50;
+
+/**
+ * Read the maxBytes argument of the attachment tools.
+ */
+function attachmentLimit(value: unknown): number {
+  return Math.min(Math.max(Number(value) || DEFAULT_ATTACHMENT_BYTES, 1), MAX_ATTACHMENT_BYTES);
+}
+
+/**
+ * Turn an error into an isError tool result.
+ * Blinko API errors get a hint on what to do next, so the model can recover
+ * (fix arguments, wait, or ask the user) instead of failing the whole call.
+ */
+function toolErrorResult(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  let hint = "";
+
+  if (error instanceof BlinkoAuthError) {
+    hint = "Blinko rejected the API key. Ask the user to check BLINKO_API_KEY (or --blinko_api_key).";
+  } else if (error instanceof BlinkoConflictError) {
+    hint = `The note was changed after you read it. Read it again with get_blinko_note, redo the edit on the current content and pass expectedUpdatedAt "${error.updatedAt}".`;
+  } else if (error instanceof BlinkoNotFoundError) {
+    hint = "The note does not exist or was deleted. Use search_blinko_notes to find a valid note ID.";
+  } else if (error instanceof BlinkoValidationError) {
+    hint = "Blinko rejected the arguments. Check the values and try again with corrected input.";
+  } else if (error instanceof BlinkoRateLimitError) {
+    const wait = error.retryAfterMs !== undefined ? ` Wait ${Math.ceil(error.retryAfterMs / 1000)}s` : " Wait a moment";
+    hint = `Blinko is rate limiting requests.${wait} before retrying.`;
+  } else if (error instanceof BlinkoServerError) {
+    hint = "Blinko failed with a server error after several retries. Try again later.";
+  } else if (error instanceof BlinkoNetworkError) {
+    hint = error.maybeApplied
+      ? "The connection failed after the request was sent, so the change may have been made. Check with search_blinko_notes or get_blinko_note before trying again, to avoid a duplicate."
+      : error.timedOut
+      ? "Blinko did not answer in time. Try again later or with a smaller request."
+      : "Blinko is unreachable. Ask the user to check BLINKO_DOMAIN and network connectivity.";
+  } else if (error instanceof BlinkoApiError) {
+    hint = "The Blinko API call failed.";
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: hint ? `Error: ${message}\n${hint}` : `Error: ${message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Tell the model when a result came from the offline mirror or writes were
+ * queued, so it does not take stale data for current.
+ */
+function withOfflineNotice<T extends { content: { type: string; text?: string }[] }>(result: T, notice: OfflineNotice): T {
+  const lines: string[] = [];
+  if (notice.servedFromMirror) {
+    lines.push(`Blinko is unreachable: served from the local mirror, ${describeStaleness(notice.servedFromMirror.lastSyncedAt)}. Results may be stale.`);
+  }
+  if (notice.queued > 0) {
+    lines.push(`Blinko is unreachable: ${notice.queued} change(s) queued offline and replayed when Blinko is reachable again. Notes created offline have temporary negative IDs.`);
+  }
+  if (lines.length === 0) {
+    return result;
+  }
+  return { ...result, content: [...result.content, { type: "text", text: lines.join("\n") }] };
+}
+
+/**
+ * Register tool handlers on the server.
+ * @param server - The MCP server.
+ * @param instances - Clients of the configured Blinko instances.
+ * @param policy - Policy deciding which tools are available and which need confirmation.
+ * @param formatter - Renders notes and dates in read tool results.
+ * @param templates - Note templates for create_blinko_note_from_template.
+ * @param duplicates - Near-duplicate check of new notes.
+ * @param recurrenceState - Record of the recurring todos generated by generate_due_blinko_todos.
+ * @param files - Local file access of the tools that take paths.
+ * @param auditLog - Log of the changes made by tool calls; changes are not logged when unset.
+ */
+export function registerToolHandlers(
+  server: Server,
+  instances: BlinkoInstances,
+  policy: ToolPolicy,
+  formatter: NoteFormatter,
+  templates: TemplateLibrary,
+  duplicates: DuplicateChecker,
+  recurrenceState: RecurrenceState,
+  files: LocalFiles,
+  auditLog?: AuditLog
+): void {
+  // Every tool except list_blinko_instances can run against any configured instance
+  const instanceProperty = {
+    instance: {
+      type: "string",
+      enum: instances.names,
+      description: `Blinko instance to use (default: ${instances.defaultName}). See list_blinko_instances.`,
+    },
+  };
+
+  const duplicateProperty = {
+    onDuplicate: {
+      type: "string",
+      enum: ["allow", "warn", "skip", "merge"],
+      description: `What to do if a recent note is a near-duplicate: create anyway ('allow'), create with a warning ('warn'), do not create ('skip'), or merge the content into the existing note ('merge'). Default: ${duplicates.mode === "off" ? "allow" : duplicates.mode}.`,
+    },
+  };
+
+  /**
+   * Handler that lists available tools.
+   * Exposes tools for writing, updating, deleting, and archiving notes in Blinko.
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: ([
+        {
+          name: "upsert_blinko_flash_note",
+          description: "Create or update a flash note (type 0) in Blinko. Flash notes are designed for quick thoughts, ideas, or brief observations that you want to capture rapidly.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "Text content of the note",
+              },
+              ...duplicateProperty,
+            },
+            required: ["content"],
+          },
+        },
+        {
+          name: "upsert_blinko_note",
+          description: "Create or update a normal note (type 1) in Blinko. Normal notes are suitable for detailed content, longer thoughts, documentation, or structured information.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "Text content of the note",
+              },
+              ...duplicateProperty,
+            },
+            required: ["content"],
+          },
+        },
+        {
+          name: "upsert_blinko_todo",
+          description: "Create or update a todo note (type 2) in Blinko. Todo notes are designed for task management, checklists, and action items that need to be tracked and completed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              content: {
+                type: "string",
+                description: "Text content of the todo",
+              },
+              ...duplicateProperty,
+            },
+            required: ["content"],
+          },
+        },
+        {
+          name: "get_blinko_note",
+          description: "Read notes by ID with their full content and details: type, flags, share state, attachments, references to and from other notes, and comments. Use this to see a note before updating or sharing it.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "ID of the note to read",
+              },
+              noteIds: {
+                type: "array",
+                items: { type: "number" },
+                description: `IDs of several notes to read at once (max ${GET_NOTES_LIMIT}). Use instead of noteId.`,
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              notes: { type: "array", items: NOTE_DETAILS_SCHEMA },
+              missing: { type: "array", items: { type: "number" }, description: "Requested IDs that were not found" },
+            },
+            required: ["notes", "missing"],
+          },
+        },
+        {
+          name: "update_blinko_note",
+          description: "Update an existing note in Blinko by ID. Can modify content, type, or status flags like archived or pinned.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note to update",
+              },
+              content: {
+                type: "string",
+                description: "New content for the note (optional)",
+              },
+              type: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Note type: 0=flash, 1=normal, 2=todo (optional)",
+              },
+              isArchived: {
+                type: "boolean",
+                description: "Set to true to archive the note (optional)",
+              },
+              isTop: {
+                type: "boolean",
+                description: "Set to true to pin the note to top (optional)",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "append_blinko_note",
+          description: "Append text to the end of a note, on a new line, without resending the whole content.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              text: {
+                type: "string",
+                description: "Text to append",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "text"],
+          },
+        },
+        {
+          name: "prepend_blinko_note",
+          description: "Insert text at the start of a note, on a line of its own, without resending the whole content.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              text: {
+                type: "string",
+                description: "Text to prepend",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "text"],
+          },
+        },
+        {
+          name: "replace_in_blinko_note",
+          description: "Find and replace text in a note. By default find must occur exactly once, so an ambiguous edit fails instead of changing the wrong place.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              find: {
+                type: "string",
+                description: "Text to find (exact, case-sensitive), or a JavaScript regular expression if regex is true",
+              },
+              replace: {
+                type: "string",
+                description: "Replacement text; may be empty to delete the match. With regex, $1, $2... insert capture groups.",
+              },
+              regex: {
+                type: "boolean",
+                description: "Treat find as a regular expression; ^ and $ match at line boundaries (default: false)",
+              },
+              all: {
+                type: "boolean",
+                description: "Replace every match instead of requiring exactly one (default: false)",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "find", "replace"],
+          },
+        },
+        {
+          name: "replace_blinko_note_section",
+          description: "Replace the body of a Markdown section of a note: the lines under a heading, up to the next heading of the same or a higher level. The heading itself and the rest of the note are kept.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              heading: {
+                type: "string",
+                description: "Heading text, case-insensitive (e.g. \"Tasks\"). Prefix with its \"#\"s (e.g. \"## Tasks\") to match only that level.",
+              },
+              content: {
+                type: "string",
+                description: "New body of the section, without the heading; empty to clear the section",
+              },
+              createIfMissing: {
+                type: "boolean",
+                description: "Append the section at the end of the note if the heading does not exist (default: false)",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "heading", "content"],
+          },
+        },
+        {
+          name: "apply_blinko_note_patch",
+          description: `Apply a unified diff (as produced by diff -u or git diff) to the content of a note. Context and removed lines must match the note, at the hunk's line number or up to ${PATCH_FUZZ_LINES} lines away; if any hunk does not apply, the note is left unchanged.`,
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              diff: {
+                type: "string",
+                description: "Unified diff with @@ -start,count +start,count @@ hunks against the current note content; file headers are optional",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "diff"],
+          },
+        },
+        {
+          name: "delete_blinko_note",
+          description: policy.deleteToTrash
+            ? "Delete a note from Blinko by ID by moving it to the recycle bin, from where restore_blinko_note brings it back. Pass permanent: true to delete it permanently instead."
+            : "Permanently delete a note from Blinko by ID. WARNING: This action cannot be undone. Use trash_blinko_note to move it to the recycle bin instead.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note to delete",
+              },
+              ...TRASH_PROPERTIES,
+              ...CONFIRMATION_PROPERTIES,
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "trash_blinko_note",
+          description: "Move a note to the recycle bin (soft delete). It can be brought back with restore_blinko_note until the recycle bin is purged.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note to move to the recycle bin",
+              },
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "restore_blinko_note",
+          description: "Restore a note from the recycle bin.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note to restore",
+              },
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "list_blinko_recycle_bin",
+          description: "List the notes in the recycle bin with when they were trashed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              size: {
+                type: "number",
+                description: "Number of notes per page (default: 20, max: 100)",
+              },
+              page: {
+                type: "number",
+                description: "Page to return, 1-based (default: 1)",
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: notesOutputSchema({ page: { type: "number" }, hasMore: { type: "boolean" } }),
+        },
+        {
+          name: "archive_blinko_note",
+          description: "Archive a note in Blinko (move to archive without deleting). Archived notes are preserved but hidden from main view.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note to archive",
+              },
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "complete_blinko_todo",
+          description: "Mark a todo as complete by archiving it. Use this when Claude finishes a tracked task. The todo is preserved in archive for metrics/history.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the todo to complete",
+              },
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "list_blinko_checklist",
+          description: "List the checklist items ('- [ ]' / '- [x]' lines) of a note, or across all notes with checklists when noteId is omitted. Items show their 1-based index, due date (@due(YYYY-MM-DD)) and priority (@priority(high|medium|low)).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "Note to list the items of. Omit to list items across all notes, ordered by due date and priority.",
+              },
+              openOnly: {
+                type: "boolean",
+                description: "Only list unchecked items (default: false for a single note, true across notes)",
+              },
+              dueBefore: {
+                type: "string",
+                description: "Only list items due on or before this date (YYYY-MM-DD)",
+              },
+              limit: {
+                type: "number",
+                description: `Maximum number of items listed across notes (default: 100, max: ${CHECKLIST_LIMIT})`,
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    noteId: { type: "number" },
+                    index: { type: "number", description: "1-based position among the note's checklist items" },
+                    line: { type: "number", description: "0-based line in the note content" },
+                    checked: { type: "boolean" },
+                    text: { type: "string" },
+                    due: { type: "string" },
+                    priority: { type: "string", enum: [...PRIORITIES] },
+                  },
+                  required: ["noteId", "index", "line", "checked", "text"],
+                },
+              },
+              total: { type: "number", description: "Number of matching items, including those beyond the limit" },
+            },
+            required: ["items", "total"],
+          },
+        },
+        {
+          name: "toggle_blinko_checklist_item",
+          description: "Check or uncheck a single checklist item of a note, chosen by index or text. Only that line of the note is rewritten.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              index: {
+                type: "number",
+                description: "1-based index of the item, as shown by list_blinko_checklist",
+              },
+              text: {
+                type: "string",
+                description: "Text of the item (case-insensitive, exact or unique substring). Use instead of index.",
+              },
+              checked: {
+                type: "boolean",
+                description: "Set the item checked (true) or unchecked (false). Toggles the item when omitted.",
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "add_blinko_checklist_items",
+          description: "Append checklist items to a note, after its last existing item. Items may have a due date and a priority.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              items: {
+                type: "array",
+                description: "Items to add",
+                items: {
+                  type: "object",
+                  properties: {
+                    text: { type: "string", description: "Item text" },
+                    due: { type: "string", description: "Due date (YYYY-MM-DD), added as @due(...)" },
+                    priority: { type: "string", enum: [...PRIORITIES], description: "Priority, added as @priority(...)" },
+                  },
+                  required: ["text"],
+                },
+              },
+              ...EXPECTED_UPDATED_AT_PROPERTY,
+            },
+            required: ["noteId", "items"],
+          },
+        },
+        {
+          name: "attach_blinko_file",
+          description: "Upload a file and attach it to an existing note (noteId) or to a new note (content). The file is a local path readable by the server, or base64 data with a name, e.g. a screenshot, log or PDF. The MIME type is detected from the contents when not given.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "ID of the note to attach the file to. Omit to create a new note.",
+              },
+              content: {
+                type: "string",
+                description: "Content of the new note, when noteId is omitted",
+              },
+              type: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Type of the new note: 0=flash (default), 1=normal, 2=todo",
+              },
+              path: {
+                type: "string",
+                description: "Local path of the file to upload. Use either path or data.",
+              },
+              data: {
+                type: "string",
+                description: "File contents as base64 (a data: URL prefix is allowed). Use either path or data.",
+              },
+              name: {
+                type: "string",
+                description: "File name with extension; required with data (default: the file name of path)",
+              },
+              mimeType: {
+                type: "string",
+                description: "MIME type of the file (default: detected)",
+              },
+              maxBytes: {
+                type: "number",
+                description: `Largest file size accepted (default: ${DEFAULT_ATTACHMENT_BYTES}, max: ${MAX_ATTACHMENT_BYTES})`,
+              },
+            },
+          },
+        },
+        {
+          name: "list_blinko_attachments",
+          description: "List the attachments of a note with their names, paths, MIME types and sizes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              ...FORMAT_PROPERTY,
+            },
+            required: ["noteId"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              noteId: { type: "number" },
+              attachments: { type: "array", items: ATTACHMENT_SCHEMA },
+            },
+            required: ["noteId", "attachments"],
+          },
+        },
+        {
+          name: "download_blinko_attachment",
+          description: "Download an attachment of a note. Images are returned as image content and text files as text; other files must be saved to a local path with outputPath.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "The ID of the note",
+              },
+              attachment: {
+                type: "string",
+                description: "Name or path of the attachment (see list_blinko_attachments)",
+              },
+              outputPath: {
+                type: "string",
+                description: "Local file or existing directory to save the attachment to",
+              },
+              overwrite: {
+                type: "boolean",
+                description: "Replace an existing file at outputPath (default: false)",
+              },
+              maxBytes: {
+                type: "number",
+                description: `Largest file size accepted (default: ${DEFAULT_ATTACHMENT_BYTES}, max: ${MAX_ATTACHMENT_BYTES})`,
+              },
+            },
+            required: ["noteId", "attachment"],
+          },
+        },
+        {
+          name: "share_blinko_note",
+          description: "Share a note publicly or cancel an existing share. Creates a public link that others can access, optionally protected with a password.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "ID of the note to share. Use the ID from search results or note creation responses.",
+              },
+              password: {
+                type: "string",
+                description: "Optional six-digit password for sharing protection (e.g., '123456'). If provided, viewers will need this password to access the shared note.",
+                pattern: "^\\d{6}$",
+              },
+              isCancel: {
+                type: "boolean",
+                description: "Set to true to cancel/disable sharing for this note (default: false). Use this to revoke public access to a previously shared note.",
+              },
+            },
+            required: ["noteId"],
+          },
+        },
+        {
+          name: "search_blinko_notes",
+          description: "Search for notes in Blinko. Returns notes with content, timestamps, and metadata. When more results exist, the response ends with a cursor for the next page.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              searchText: {
+                type: "string",
+                description: "Search keyword or phrase. Use this to find notes containing specific text content.",
+              },
+              size: {
+                type: "number",
+                description: "Number of results to return (default: 5). Use larger values when you need more comprehensive search results.",
+              },
+              page: {
+                type: "number",
+                description: "Page of results to start from, 1-based (default: 1). Prefer cursor to continue a previous search.",
+              },
+              cursor: {
+                type: "string",
+                description: "Continuation cursor returned by a previous search. Pass it alone to get the next page; the other arguments are then ignored.",
+              },
+              type: {
+                type: "number",
+                enum: [-1, 0, 1, 2],
+                description: "Note type filter: -1 for all types (default), 0 for flash notes, 1 for normal notes, 2 for todo notes. Use specific types when you need to filter by note category.",
+              },
+              isArchived: {
+                type: "boolean",
+                description: "Search in archived notes (default: false). Set to true when you need to find notes that have been archived for long-term storage.",
+              },
+              isRecycle: {
+                type: "boolean",
+                description: "Search in recycled/deleted notes (default: false). Set to true when you need to recover or find deleted notes.",
+              },
+              isUseAiQuery: {
+                type: "boolean",
+                description: "Use AI-powered semantic search (default: true). Set to false for exact text matching only. AI search is better for finding conceptually related content.",
+              },
+              startDate: {
+                type: "string",
+                description: "Start date for time-based filtering in ISO format (e.g. 2025-03-03T00:00:00.000Z). Use when searching for notes created after a specific date.",
+              },
+              endDate: {
+                type: "string",
+                description: "End date for time-based filtering in ISO format (e.g. 2025-03-03T00:00:00.000Z). Use when searching for notes created before a specific date.",
+              },
+              hasTodo: {
+                type: "boolean",
+                description: "Search only in notes containing todo items (default: false). Set to true when looking for notes with task lists or checkboxes.",
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only return notes carrying all of these hashtags (e.g. ['claude', 'project:my-project']). Nested tags match their parents: 'project' also matches '#project/sub'.",
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: notesOutputSchema({ nextCursor: { type: "string", description: "Cursor for the next page, if more results exist" } }),
+        },
+        {
+          name: "full_text_search_blinko_notes",
+          description: "Full-text search over all notes with a local index. Results are ranked by relevance (BM25) and come with highlighted snippets. Works offline when the local mirror is enabled. Use hybrid mode to also merge in Blinko's AI search results.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Words are ANDed; use OR between alternatives, -word to exclude, \"exact phrase\" and prefix* terms. Filters: tag:<tag>, type:flash|note|todo, before:YYYY-MM-DD, after:YYYY-MM-DD (on or after; days in the server's time zone), is:archived|recycle|top|shared|todo (negate with -is:...). Archived and recycled notes are only searched with is:archived or is:recycle.",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of results (default: 10, max: 100)",
+              },
+              mode: {
+                type: "string",
+                enum: ["local", "hybrid"],
+                description: "'local' (default) ranks with the local index only; 'hybrid' merges local results with Blinko's AI search, deduplicated by note ID",
+              },
+              ...FORMAT_PROPERTY,
+            },
+            required: ["query"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              indexed: { type: "number", description: "Number of notes in the local index" },
+              hits: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    note: NOTE_SCHEMA,
+                    score: { type: "number" },
+                    snippet: { type: "string" },
+                    sources: { type: "array", items: { type: "string", enum: ["local", "ai"] } },
+                  },
+                  required: ["note", "score", "snippet", "sources"],
+                },
+              },
+              warning: { type: "string" },
+            },
+            required: ["indexed", "hits"],
+          },
+        },
+        {
+          name: "review_blinko_daily_notes",
+          description: "Retrieve today's notes for daily review and reflection. This helps with reviewing recent thoughts, tasks, and ideas to maintain productivity and mindfulness.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: notesOutputSchema(),
+        },
+        {
+          name: "blinko_todo_report",
+          description: "Report task-completion metrics for todo notes over a date range, grouped by #project: tag: created vs completed counts, mean time to complete, aging of open todos and per-day throughput. A todo counts as completed when it is archived (e.g. by complete_blinko_todo).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              startDate: {
+                type: "string",
+                description: "First day of the range, YYYY-MM-DD (default: 30 days before endDate)",
+              },
+              endDate: {
+                type: "string",
+                description: "Last day of the range, inclusive, YYYY-MM-DD (default: today)",
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: TODO_REPORT_SCHEMA,
+        },
+        {
+          name: "find_blinko_duplicates",
+          description: "Find clusters of near-duplicate notes across the account, by normalized content and word-shingle (Jaccard) similarity. Each cluster lists its notes oldest first with their similarity to the oldest. Merge a cluster with merge_blinko_duplicates.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              threshold: {
+                type: "number",
+                description: `Similarity from 0 to 1 above which notes count as duplicates (default: ${duplicates.threshold})`,
+              },
+              type: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Only compare notes of this type: 0=flash, 1=normal, 2=todo (default: all)",
+              },
+              includeArchived: {
+                type: "boolean",
+                description: "Also compare archived notes (default: false)",
+              },
+              limit: {
+                type: "number",
+                description: `Maximum number of notes compared, most recent first (default: ${DEFAULT_DUPLICATE_SCAN}, max: ${MAX_DUPLICATE_SCAN})`,
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              scanned: { type: "number", description: "Number of notes compared" },
+              threshold: { type: "number" },
+              clusters: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    noteIds: { type: "array", items: { type: "number" }, description: "IDs of the notes, oldest first" },
+                    notes: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          ...NOTE_LINK_SCHEMA.properties,
+                          similarity: { type: "number", description: "Similarity to the oldest note of the cluster" },
+                          createdAt: { type: "string" },
+                          isArchived: { type: "boolean" },
+                        },
+                        required: ["id", "title", "similarity", "createdAt", "isArchived"],
+                      },
+                    },
+                  },
+                  required: ["noteIds", "notes"],
+                },
+              },
+            },
+            required: ["scanned", "threshold", "clusters"],
+          },
+        },
+        {
+          name: "merge_blinko_duplicates",
+          description: "Merge near-duplicate notes into one: the lines of the other notes that the kept note does not already have are appended to it, then the other notes are archived.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteIds: {
+                type: "array",
+                items: { type: "number" },
+                description: "IDs of the notes to merge, e.g. a cluster from find_blinko_duplicates",
+              },
+              keepId: {
+                type: "number",
+                description: "ID of the note to keep (default: the oldest)",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only show the merged content without changing anything (default: false)",
+              },
+            },
+            required: ["noteIds"],
+          },
+        },
+        {
+          name: "link_blinko_notes",
+          description: "Link one note to another by adding a [[id]] link to the content of the linking note.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              fromNoteId: {
+                type: "number",
+                description: "ID of the note that gets the link",
+              },
+              toNoteId: {
+                type: "number",
+                description: "ID of the note linked to",
+              },
+            },
+            required: ["fromNoteId", "toNoteId"],
+          },
+        },
+        {
+          name: "unlink_blinko_notes",
+          description: "Remove the [[id]] links from one note to another. References created in Blinko itself can only be removed in Blinko.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              fromNoteId: {
+                type: "number",
+                description: "ID of the note holding the link",
+              },
+              toNoteId: {
+                type: "number",
+                description: "ID of the note linked to",
+              },
+            },
+            required: ["fromNoteId", "toNoteId"],
+          },
+        },
+        {
+          name: "list_blinko_note_links",
+          description: "List the notes a note links to and the notes linking to it (backlinks), through [[id]] links and Blinko references.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "ID of the note",
+              },
+              ...FORMAT_PROPERTY,
+            },
+            required: ["noteId"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              noteId: { type: "number" },
+              outgoing: { type: "array", items: NOTE_LINK_SCHEMA },
+              missing: { type: "array", items: { type: "number" }, description: "Linked IDs of missing or deleted notes" },
+              backlinks: { type: "array", items: NOTE_LINK_SCHEMA },
+            },
+            required: ["noteId", "outgoing", "missing", "backlinks"],
+          },
+        },
+        {
+          name: "blinko_note_graph",
+          description: "Return the graph of notes around a note, following links and backlinks up to a depth, as JSON or as a Mermaid flowchart.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteId: {
+                type: "number",
+                description: "ID of the note at the center of the graph",
+              },
+              depth: {
+                type: "number",
+                description: `Number of link hops to follow (default: 1, max: ${MAX_GRAPH_DEPTH})`,
+              },
+              format: {
+                type: "string",
+                enum: ["json", "mermaid", "markdown", "text"],
+                description: "Output as JSON nodes and edges (default), a Mermaid flowchart ('mermaid' or 'markdown') or a list of notes and links ('text'). The result also carries the graph as structuredContent.",
+              },
+              maxNodes: {
+                type: "number",
+                description: `Maximum number of notes in the graph (default: ${DEFAULT_GRAPH_NODES}, max: ${MAX_GRAPH_NODES})`,
+              },
+            },
+            required: ["noteId"],
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              root: { type: "number" },
+              depth: { type: "number" },
+              nodes: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "number" },
+                    title: { type: "string" },
+                    type: { type: "number" },
+                    depth: { type: "number", description: "Link hops from the root note" },
+                  },
+                  required: ["id", "title", "type", "depth"],
+                },
+              },
+              edges: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { from: { type: "number" }, to: { type: "number" } },
+                  required: ["from", "to"],
+                },
+              },
+              truncated: { type: "boolean", description: "True if notes were left out because of maxNodes" },
+            },
+            required: ["root", "depth", "nodes", "edges", "truncated"],
+          },
+        },
+        {
+          name: "list_blinko_tags",
+          description: "List the hashtags used in notes with the number of notes carrying each tag. Nested tags like #project/sub are listed individually.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              prefix: {
+                type: "string",
+                description: "Only list tags within this tag (e.g. 'project' lists #project and #project/sub) (optional)",
+              },
+              includeArchived: {
+                type: "boolean",
+                description: "Also count archived notes (default: false)",
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              tags: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { tag: { type: "string" }, count: { type: "number" } },
+                  required: ["tag", "count"],
+                },
+              },
+              noteCount: { type: "number", description: "Number of notes scanned" },
+            },
+            required: ["tags", "noteCount"],
+          },
+        },
+        {
+          name: "rename_blinko_tag",
+          description: "Rename a hashtag in every note carrying it, including tags nested below it (#project/sub becomes #work/sub when renaming 'project' to 'work'). Reports the IDs of the changed notes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              from: {
+                type: "string",
+                description: "Tag to rename, with or without the leading '#'",
+              },
+              to: {
+                type: "string",
+                description: "New tag name, with or without the leading '#'",
+              },
+              includeArchived: {
+                type: "boolean",
+                description: "Also rewrite archived notes (default: true)",
+              },
+            },
+            required: ["from", "to"],
+          },
+        },
+        {
+          name: "merge_blinko_tags",
+          description: "Merge several hashtags into one: every source tag (and the tags nested below it) is replaced by the target tag in every note. Reports the IDs of the changed notes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              sources: {
+                type: "array",
+                items: { type: "string" },
+                description: "Tags to merge away, with or without the leading '#'",
+              },
+              target: {
+                type: "string",
+                description: "Tag to merge into, with or without the leading '#'",
+              },
+              includeArchived: {
+                type: "boolean",
+                description: "Also rewrite archived notes (default: true)",
+              },
+            },
+            required: ["sources", "target"],
+          },
+        },
+        {
+          name: "bulk_archive_blinko_notes",
+          description: "Archive many notes at once, selected by ID list or search selector. Returns a per-note success/failure report.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...BULK_SELECTION_PROPERTIES,
+            },
+          },
+        },
+        {
+          name: "bulk_delete_blinko_notes",
+          description: policy.deleteToTrash
+            ? "Delete many notes at once by moving them to the recycle bin, selected by ID list or search selector. Pass permanent: true to delete them permanently instead. Returns a per-note success/failure report."
+            : "Permanently delete many notes at once, selected by ID list or search selector. Returns a per-note success/failure report. WARNING: This action cannot be undone.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...BULK_SELECTION_PROPERTIES,
+              ...TRASH_PROPERTIES,
+              ...CONFIRMATION_PROPERTIES,
+            },
+          },
+        },
+        {
+          name: "bulk_update_blinko_notes",
+          description: "Set status flags (pinned, archived) on many notes at once, selected by ID list or search selector. Returns a per-note success/failure report.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...BULK_SELECTION_PROPERTIES,
+              isTop: {
+                type: "boolean",
+                description: "Pin (true) or unpin (false) the notes (optional)",
+              },
+              isArchived: {
+                type: "boolean",
+                description: "Archive (true) or unarchive (false) the notes (optional)",
+              },
+            },
+          },
+        },
+        {
+          name: "bulk_move_blinko_notes",
+          description: "Change the type of many notes at once (flash, normal or todo), selected by ID list or search selector. Returns a per-note success/failure report.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...BULK_SELECTION_PROPERTIES,
+              type: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Target note type: 0=flash, 1=normal, 2=todo",
+              },
+            },
+            required: ["type"],
+          },
+        },
+        {
+          name: "bulk_complete_blinko_todos",
+          description: "Mark many todos as complete by archiving them, selected by ID list or search selector. A selector only matches todo notes. Returns a per-note success/failure report.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...BULK_SELECTION_PROPERTIES,
+            },
+          },
+        },
+        {
+          name: "export_blinko_notes",
+          description: "Export notes to a local directory on the server's machine, as a Markdown vault (one file per note with YAML front matter) or a single JSON backup. Re-exporting into the same directory only rewrites notes that changed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              directory: {
+                type: "string",
+                description: "Target directory, created if missing. Relative paths are resolved against the server's working directory.",
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "json"],
+                description: "Output format (default: markdown)",
+              },
+              type: {
+                type: "number",
+                enum: [-1, 0, 1, 2],
+                description: "Note type filter: -1 for all types (default), 0 for flash, 1 for normal, 2 for todo",
+              },
+              isArchived: {
+                type: "boolean",
+                description: "Export archived notes instead of active ones (default: false)",
+              },
+              isRecycle: {
+                type: "boolean",
+                description: "Export notes from the recycle bin instead of active ones (default: false)",
+              },
+              startDate: {
+                type: "string",
+                description: "Only export notes created after this date, in ISO format (optional)",
+              },
+              endDate: {
+                type: "string",
+                description: "Only export notes created before this date, in ISO format (optional)",
+              },
+              tag: {
+                type: "string",
+                description: "Only export notes carrying this hashtag, including tags nested below it (optional)",
+              },
+            },
+            required: ["directory"],
+          },
+        },
+        {
+          name: "import_blinko_notes",
+          description: "Import notes from a local Markdown folder (e.g. an Obsidian vault) or a JSON backup on the server's machine. Front matter sets the note type and flags, tags are kept, and notes whose content already exists are skipped. Resumable: a mapping file from source path to note ID records progress.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              source: {
+                type: "string",
+                description: "Directory of Markdown files, or a JSON backup file written by export_blinko_notes",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only report what would be imported, without creating notes (default: false)",
+              },
+              timestamps: {
+                type: "string",
+                enum: ["none", "content"],
+                description: "Keep original created/updated timestamps by appending them to the note content ('content'), or drop them ('none', default)",
+              },
+              mappingFile: {
+                type: "string",
+                description: "Path of the mapping file (default: .blinko-import-map.json in the source directory, or <file>.import-map.json next to a JSON backup)",
+              },
+              defaultType: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Note type for sources that do not specify one: 0=flash, 1=normal (default), 2=todo",
+              },
+            },
+            required: ["source"],
+          },
+        },
+        {
+          name: "list_blinko_templates",
+          description: "List the note templates with their variables. Templates are Markdown files in the templates directory or notes tagged #template (or #template/<name>). Use them with create_blinko_note_from_template.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              templates: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    description: { type: "string" },
+                    type: { type: "number", enum: [0, 1, 2], description: "Default note type: 0=flash, 1=normal, 2=todo" },
+                    source: { type: "string", enum: ["file", "note"] },
+                    location: { type: "string", description: "File path or note ID of the template" },
+                    recurrence: { type: "string", description: "Recurrence rule of a recurring todo template" },
+                    start: { type: "string", description: "First date of a recurring template" },
+                    title: { type: "string", description: "Title of the notes generated by a recurring template" },
+                    variables: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          name: { type: "string" },
+                          required: { type: "boolean" },
+                        },
+                        required: ["name", "required"],
+                      },
+                    },
+                  },
+                  required: ["name", "description", "type", "source", "location", "variables"],
+                },
+              },
+            },
+            required: ["templates"],
+          },
+        },
+        {
+          name: "create_blinko_note_from_template",
+          description: "Create a note from a template. {{title}} and the custom variables are filled in from the arguments, {{date}}, {{time}} and {{weekday}} from the current time; {{#if name}}...{{/if}} sections are kept only when the variable is set. Fails if a required variable is missing.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              template: {
+                type: "string",
+                description: "Template name (see list_blinko_templates)",
+              },
+              title: {
+                type: "string",
+                description: "Note title, used for {{title}}",
+              },
+              variables: {
+                type: "object",
+                additionalProperties: { type: "string" },
+                description: "Values of the custom variables, e.g. {\"project\": \"website\"}",
+              },
+              type: {
+                type: "number",
+                enum: [0, 1, 2],
+                description: "Note type: 0=flash, 1=normal, 2=todo (default: the type of the template)",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only render the note without creating it (default: false)",
+              },
+            },
+            required: ["template"],
+          },
+        },
+        {
+          name: "generate_due_blinko_todos",
+          description: `Create the notes of the recurring templates (templates with a recurrence rule) that are due, from lookbackDays before date up to date. Each occurrence is created once: occurrences generated before, by this tool or the generate CLI command, are skipped, so it is safe to run repeatedly. {{date}} and {{weekday}} are set to the occurrence.`,
+          inputSchema: {
+            type: "object",
+            properties: {
+              date: {
+                type: "string",
+                description: "Last date to generate occurrences for, as YYYY-MM-DD (default: today)",
+              },
+              lookbackDays: {
+                type: "number",
+                description: `Also generate missed occurrences of this many days before date (default: ${DEFAULT_LOOKBACK_DAYS}, max: ${MAX_LOOKBACK_DAYS})`,
+              },
+              template: {
+                type: "string",
+                description: "Only generate this recurring template (default: all)",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only list the notes that would be created (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "list_blinko_audit_log",
+          description: "List recent entries of the audit log, newest first. Every tool call that changed notes is logged with its arguments and a snapshot of each note before the change. Use the entry IDs with blinko_undo.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              limit: {
+                type: "number",
+                description: `Maximum number of entries (default: 20, max: ${AUDIT_LIST_LIMIT})`,
+              },
+              noteId: {
+                type: "number",
+                description: "Only list entries that changed this note",
+              },
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              path: { type: "string", description: "Path of the audit log file" },
+              entries: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    timestamp: { type: "string" },
+                    tool: { type: "string" },
+                    instance: { type: "string" },
+                    arguments: { type: "object" },
+                    changes: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          action: { type: "string", enum: ["create", "update", "delete", "share"] },
+                          noteId: { type: "number" },
+                        },
+                        required: ["action", "noteId"],
+                      },
+                    },
+                    undone: { type: "boolean" },
+                    undoes: { type: "array", items: { type: "string" } },
+                    error: { type: "string" },
+                  },
+                  required: ["id", "timestamp", "tool", "instance", "arguments", "changes", "undone"],
+                },
+              },
+            },
+            required: ["path", "entries"],
+          },
+        },
+        {
+          name: "blinko_undo",
+          description: "Undo the last operations that changed notes, or one specific audit log entry, by restoring the logged snapshots. Updates are reverted, deleted notes are recreated (with new IDs), created notes are moved to the recycle bin and sharing is restored. The undo is logged too, so it can itself be undone by its entry ID.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              count: {
+                type: "number",
+                description: `Number of most recent operations to undo (default: 1, max: ${UNDO_LIMIT}). Operations already undone and earlier undos are skipped.`,
+              },
+              entryId: {
+                type: "string",
+                description: "ID of one audit log entry to undo instead (see list_blinko_audit_log)",
+              },
+              force: {
+                type: "boolean",
+                description: "Undo entryId even if later operations changed the same notes, overwriting their changes (default: false)",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only show what would be undone (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "list_blinko_instances",
+          description: "List the configured Blinko instances with their domains. Every other tool takes an optional instance argument to run against one of them instead of the default.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...FORMAT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: "object",
+            properties: {
+              instances: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    domain: { type: "string" },
+                    isDefault: { type: "boolean" },
+                    mirror: { type: "boolean", description: "True if the instance has an offline mirror" },
+                  },
+                  required: ["name", "domain", "isDefault", "mirror"],
+                },
+              },
+            },
+            required: ["instances"],
+          },
+        },
+        {
+          name: "copy_blinko_notes",
+          description: "Copy notes from one Blinko instance (the instance argument) to another. Copies keep the content, type and pinned/archived flags; attachments, comments and share settings are not copied. Notes whose content already exists on the target instance are skipped.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              noteIds: BULK_SELECTION_PROPERTIES.noteIds,
+              selector: BULK_SELECTION_PROPERTIES.selector,
+              targetInstance: {
+                type: "string",
+                enum: instances.names,
+                description: "Instance the copies are created on",
+              },
+            },
+            required: ["targetInstance"],
+          },
+        },
+        {
+          name: "sync_blinko_mirror",
+          description: "Sync the local offline mirror now: replay changes queued while Blinko was unreachable, then fetch notes changed since the last sync. Reports queued changes that conflict with remote edits. Only available when the server runs with a mirror directory.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              resolveConflicts: {
+                type: "string",
+                enum: ["keep_remote", "overwrite"],
+                description: "How to resolve conflicting offline changes: drop them and keep the remote note ('keep_remote'), or apply them anyway ('overwrite'). Conflicts stay queued when omitted.",
+              },
+            },
+          },
+        },
+        {
+          name: "purge_blinko_recycle_bin",
+          description: "Permanently delete only some notes from the recycle bin: those trashed more than olderThanDays ago, those matching a selector, or those matching both. WARNING: This action cannot be undone.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              olderThanDays: {
+                type: "number",
+                description: "Only purge notes trashed more than this many days ago",
+              },
+              selector: {
+                ...BULK_SELECTION_PROPERTIES.selector,
+                description: "Search selecting the notes to purge, with the same fields as search_blinko_notes. Only notes in the recycle bin are ever matched.",
+              },
+              ...CONFIRMATION_PROPERTIES,
+            },
+          },
+        },
+        {
+          name: "clear_blinko_recycle_bin",
+          description: "Permanently delete all notes in the recycle bin. WARNING: This action cannot be undone. Use only when you're certain you want to permanently remove all deleted notes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...CONFIRMATION_PROPERTIES,
+            },
+          },
+        },
+      ] satisfies Tool[])
+        .filter((tool) => policy.isToolEnabled(tool.name))
+        .map((tool) => tool.name === "list_blinko_instances"
+          ? tool
+          : { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, ...instanceProperty } } }),
+    };
+  });
+
+  /**
+   * Gate a destructive tool call behind a preview and a confirmation token.
+   * A confirmed call removes the notes of the preview: if the selection
+   * changed since, e.g. because notes were trashed meanwhile, it is refused
+   * with a new preview.
+   * @returns A preview result to send instead of running the tool, or the
+   *          confirmed selection if the call may proceed (none when no
+   *          confirmation is required).
+   */
+  const checkConfirmation = async (
+    blinko: BlinkoClient,
+    request: CallToolRequest
+  ): Promise<{ preview?: { content: { type: string; text: string }[] }; confirmed?: NoteSelection }> => {
+    const name = request.params.name;
+    const args = request.params.arguments || {};
+    const dryRun = args.dryRun === true;
+    if (!dryRun && !policy.requiresConfirmation(name, args)) {
+      return {};
+    }
+
+    const selection = await selectDestructive(blinko, name, args);
+    const token = args.confirmationToken ? String(args.confirmationToken) : "";
+    const confirmedIds = !dryRun && token ? policy.consumeToken(name, args, token) : undefined;
+    if (confirmedIds && sameNoteIds(confirmedIds, selection.ids)) {
+      return { confirmed: { ids: confirmedIds, limitReached: selection.limitReached } };
+    }
+
+    const preview = await previewDestructive(blinko, selection, policy.deletesPermanently(name, args));
+    if (dryRun) {
+      return {
+        preview: { content: [{ type: "text", text: ["Dry run, nothing was deleted.", ...preview].join("\n") }] },
+      };
+    }
+
+    const newToken = policy.issueToken(name, args, selection.ids);
+    const intro = confirmedIds
+      ? "The selected notes changed since the preview, so nothing was deleted. Check the new selection:"
+      : token
+      ? "The confirmation token is invalid, expired or was issued for different arguments. Nothing was deleted."
+      : "Confirmation required, nothing was deleted yet.";
+    return {
+      preview: {
+        content: [
+          {
+            type: "text",
+            text: [
+              intro,
+              ...preview,
+              `To proceed, confirm with the user, then call ${name} again with the same arguments and confirmationToken "${newToken}" (valid for ${policy.confirmationTtlMinutes} minute(s), single use).`,
+            ].join("\n"),
+          },
+        ],
+      },
+    };
+  };
+
+  /**
+   * Run a Blinko tool.
+   * Creates, updates, deletes, or archives notes as requested.
+   */
+  const callTool = async (request: CallToolRequest) => {
+    policy.assertToolEnabled(request.params.name);
+
+    // Listing instances must work even if the default instance is not fully configured
+    if (request.params.name === "list_blinko_instances") {
+      const format = parseFormat(request.params.arguments?.format);
+      const list = instances.describe();
+      return formatResult(format, { instances: list }, () => [
+        `${list.length} Blinko instance(s) configured:`,
+        ...list.map((i) => `- ${i.name}: ${i.domain || "(no domain)"}${i.isDefault ? " (default)" : ""}${i.mirror ? ", offline mirror" : ""}`),
+      ].join("\n"));
+    }
+
+    const instance = request.params.arguments?.instance ? String(request.params.arguments.instance) : undefined;
+    const instanceName = instance || instances.defaultName;
+    const blinko = instances.get(instance);
+
+    // Notes of a confirmed preview, removed instead of selecting the notes again
+    let confirmed: NoteSelection | undefined;
+    if (DESTRUCTIVE_TOOLS.has(request.params.name)) {
+      const check = await checkConfirmation(blinko, request);
+      if (check.preview) {
+        return check.preview;
+      }
+      confirmed = check.confirmed;
+    }
+
+    // Send progress notifications if the client asked for them
+    const progressToken = request.params._meta?.progressToken;
+    const reportProgress = async (progress: number, total: number) => {
+      if (progressToken !== undefined) {
+        await server.notification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total },
+        });
+      }
+    };
+
+    switch (request.params.name) {
+      case "upsert_blinko_flash_note":
+      case "upsert_blinko_note":
+      case "upsert_blinko_todo": {
+        const content = String(request.params.arguments?.content);
+        if (!content) {
+          throw new Error("Content is required");
+        }
+
+        let type: number;
+        if (request.params.name === "upsert_blinko_flash_note") {
+          type = 0;
+        } else if (request.params.name === "upsert_blinko_note") {
+          type = 1;
+        } else {
+          type = 2; 
+        }
+        const onDuplicate = request.params.arguments?.onDuplicate;
+        const mode = onDuplicate === undefined ? duplicates.mode : onDuplicate === "allow" ? "off" : parseDuplicateMode(onDuplicate);
+        const matches = mode === "off" ? [] : await duplicates.check(blinko, content);
+        const describeMatch = ({ note, similarity }: DuplicateMatch) => `${note.id} (${Math.round(similarity * 100)}% similar)`;
+
+        if (matches.length > 0 && mode === "skip") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Not created: note ${describeMatch(matches[0])} is a near-duplicate. Call again with onDuplicate "allow" to create it anyway, or "merge" to merge it into that note.`,
+              },
+            ],
+          };
+        }
+        if (matches.length > 0 && mode === "merge") {
+          const existing = matches[0].note;
+          const merged = mergeContents(existing.content, [content]);
+          if (merged !== existing.content) {
+            await blinko.updateNote(existing.id, { content: merged });
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: merged === existing.content
+                  ? `No new note was created: existing note ${describeMatch(matches[0])} already contains this content. Existing note ID: ${existing.id}`
+                  : `No new note was created: the content was merged into existing note ${describeMatch(matches[0])}. Merged note ID: ${existing.id}`,
+              },
+            ],
+          };
+        }
+
+        const note = await blinko.upsertNote({ content, type: type as 0 | 1 | 2 });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully wrote note to Blinko. Note ID: ${note.id}`,
+            },
+            ...(matches.length > 0
+              ? [{ type: "text", text: `Warning: similar to existing note(s) ${matches.slice(0, 5).map(describeMatch).join(", ")}. Consider merging them with merge_blinko_duplicates.` }]
+              : []),
+          ],
+        };
+      }
+
+      case "get_blinko_note": {
+        const args = request.params.arguments || {};
+        const noteIds = Array.isArray(args.noteIds) ? args.noteIds.map(Number) : args.noteId !== undefined ? [Number(args.noteId)] : [];
+        if (noteIds.length === 0 || noteIds.some((id) => !Number.isInteger(id))) {
+          throw new Error("noteId or noteIds is required");
+        }
+        if (noteIds.length > GET_NOTES_LIMIT) {
+          throw new Error(`At most ${GET_NOTES_LIMIT} notes can be read at once`);
+        }
+
+        const format = parseFormat(args.format);
+
+        if (noteIds.length === 1) {
+          const note = await blinko.getNote(noteIds[0]);
+          return formatResult(format, { notes: [formatter.noteDetails(note)], missing: [] }, () => formatter.formatNoteDetails(note, format));
+        }
+
+        const { notes, missing } = await blinko.getNotes(noteIds);
+        return {
+          ...formatResult(format, { notes: notes.map((note) => formatter.noteDetails(note)), missing }, () => [
+            ...notes.map((note) => formatter.formatNoteDetails(note, format)),
+            ...(missing.length ? [`Not found: ${missing.join(", ")}`] : []),
+          ]),
+          isError: notes.length === 0,
+        };
+      }
+
+      case "update_blinko_note": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        const { content, type, isArchived, isTop, expectedUpdatedAt } = request.params.arguments || {};
+        const updates: Record<string, unknown> = {};
+        if (content !== undefined) updates.content = String(content);
+        if (type !== undefined) updates.type = Number(type);
+        if (isArchived !== undefined) updates.isArchived = Boolean(isArchived);
+        if (isTop !== undefined) updates.isTop = Boolean(isTop);
+
+        if (expectedUpdatedAt) {
+          assertUnchanged(await blinko.getNote(noteId), String(expectedUpdatedAt));
+        }
+        await blinko.updateNote(noteId, updates);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully updated note ${noteId}`,
+            },
+          ],
+        };
+      }
+
+      case "append_blinko_note":
+      case "prepend_blinko_note":
+      case "replace_in_blinko_note":
+      case "replace_blinko_note_section":
+      case "apply_blinko_note_patch": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+        const expectedUpdatedAt = args.expectedUpdatedAt ? String(args.expectedUpdatedAt) : undefined;
+
+        let summary = "";
+        const edit = (content: string): string => {
+          switch (request.params.name) {
+            case "append_blinko_note":
+              summary = "Appended text to";
+              return appendText(content, String(args.text ?? ""));
+            case "prepend_blinko_note":
+              summary = "Prepended text to";
+              return prependText(content, String(args.text ?? ""));
+            case "replace_in_blinko_note": {
+              const result = replaceText(content, String(args.find ?? ""), String(args.replace ?? ""), {
+                regex: args.regex === true,
+                all: args.all === true,
+              });
+              summary = `Replaced ${result.count} match(es) in`;
+              return result.content;
+            }
+            case "replace_blinko_note_section":
+              summary = `Updated section "${args.heading}" of`;
+              return replaceSection(content, String(args.heading ?? ""), String(args.content ?? ""), args.createIfMissing === true);
+            default:
+              summary = "Applied the patch to";
+              return applyUnifiedDiff(content, String(args.diff ?? ""));
+          }
+        };
+
+        const { note, changed } = await editNote(blinko, noteId, edit, expectedUpdatedAt);
+        return {
+          content: [
+            {
+              type: "text",
+              text: changed
+                ? `${summary} note ${noteId}. updatedAt: ${note.updatedAt}`
+                : `Note ${noteId} already has the resulting content; nothing was changed. updatedAt: ${note.updatedAt}`,
+            },
+          ],
+        };
+      }
+
+      case "delete_blinko_note": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        if (!policy.deletesPermanently(request.params.name, request.params.arguments || {})) {
+          await blinko.trashNote(noteId);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Moved note ${noteId} to the recycle bin. Use restore_blinko_note to bring it back.`,
+              },
+            ],
+          };
+        }
+
+        await blinko.deleteNote(noteId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully deleted note ${noteId}`,
+            },
+          ],
+        };
+      }
+
+      case "trash_blinko_note":
+      case "restore_blinko_note": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        const trash = request.params.name === "trash_blinko_note";
+        await (trash ? blinko.trashNote(noteId) : blinko.restoreNote(noteId));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: trash
+                ? `Moved note ${noteId} to the recycle bin. Use restore_blinko_note to bring it back.`
+                : `Restored note ${noteId} from the recycle bin`,
+            },
+          ],
+        };
+      }
+
+      case "list_blinko_recycle_bin": {
+        const args = request.params.arguments || {};
+        const size = Math.min(Number(args.size) || 20, 100);
+        const page = Number(args.page) || 1;
+        const format = parseFormat(args.format);
+        const notes = await blinko.searchNotes({ searchText: "", isRecycle: true, isUseAiQuery: false, size, page });
+        const hasMore = notes.length === size;
+
+        return formatResult(format, { notes: notes.map((note) => formatter.noteData(note)), page, hasMore }, () => [
+          notes.length
+            ? `${notes.length} note(s) in the recycle bin (page ${page}):`
+            : page > 1 ? `No more notes in the recycle bin (page ${page}).` : "The recycle bin is empty.",
+          ...notes.map((note) => format === "markdown"
+            ? formatter.formatNote(note, format, `Trashed ${formatter.formatDate(note.updatedAt)}`)
+            : `${previewLine(note)}\n  Trashed: ${formatter.formatDate(note.updatedAt)}`),
+          ...(hasMore ? [`There may be more notes. Call list_blinko_recycle_bin with page ${page + 1} to see them.`] : []),
+        ]);
+      }
+
+      case "purge_blinko_recycle_bin": {
+        const args = request.params.arguments || {};
+        let selection = confirmed;
+        if (!selection) {
+          const { notes, limitReached } = await selectPurge(blinko, args);
+          selection = { ids: notes.map((note) => note.id), limitReached };
+        }
+        const report = await runBulk(selection.ids, (id) => blinko.deleteNote(id), undefined, reportProgress);
+
+        return bulkResult("purged", report, selection);
+      }
+
+      case "archive_blinko_note":
+      case "complete_blinko_todo": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        await blinko.archiveNote(noteId);
+        const action = request.params.name === "complete_blinko_todo" ? "completed" : "archived";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully ${action} note ${noteId}`,
+            },
+          ],
+        };
+      }
+
+      case "search_blinko_notes": {
+        const {
+          searchText,
+          size,
+          page,
+          cursor,
+          type,
+          isArchived,
+          isRecycle,
+          isUseAiQuery,
+          startDate,
+          endDate,
+          hasTodo,
+          tags,
+        } = request.params.arguments || {};
+
+        let query;
+        if (cursor) {
+          // The cursor carries the whole query, so other arguments are ignored
+          query = decodeCursor(String(cursor));
+        } else {
+          if (!searchText && searchText !== "") {
+            throw new Error("Search text is required");
+          }
+
+          // Support type 2 (todo notes) in addition to existing types
+          let noteType: -1 | 0 | 1 | 2 = -1;
+          if (type === 0 || type === 1 || type === 2) {
+            noteType = type;
+          }
+
+          const tagFilter = Array.isArray(tags) ? tags.map((t) => normalizeTag(String(t))).filter(Boolean) : [];
+          query = firstCursor({
+            searchText: String(searchText),
+            size: Number(size) || undefined,
+            page: Number(page) || undefined,
+            type: noteType,
+            isArchived: Boolean(isArchived),
+            isRecycle: Boolean(isRecycle),
+            isUseAiQuery: isUseAiQuery !== false,
+            startDate: startDate ? String(startDate) : null,
+            endDate: endDate ? String(endDate) : null,
+            hasTodo: Boolean(hasTodo),
+          }, tagFilter);
+        }
+
+        const format = parseFormat(request.params.arguments?.format);
+        const { notes, next } = await searchPage(blinko, query);
+        const nextCursor = next ? encodeCursor(next) : undefined;
+
+        return formatResult(format, { notes: notes.map((note) => formatter.noteData(note)), nextCursor }, () => [
+          `Found ${notes.length} note(s):`,
+          ...notes.map((note) => formatter.formatNote(note, format)),
+          ...(nextCursor ? [`More results are available. To get the next page, call search_blinko_notes with cursor "${nextCursor}".`] : []),
+        ]);
+      }
+
+      case "full_text_search_blinko_notes": {
+        const args = request.params.arguments || {};
+        const format = parseFormat(args.format);
+        const query = parseQuery(String(args.query ?? ""), formatter);
+        if (query.groups.length === 0) {
+          throw new Error("Query is required");
+        }
+        const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 100);
+        const index = await getSearchIndex(blinko);
+
+        let hits = index.search(query, limit);
+        let aiWarning = "";
+        if (args.mode === "hybrid") {
+          if (query.text) {
+            try {
+              const ai = await blinko.searchNotes({ searchText: query.text, size: limit, isUseAiQuery: true });
+              hits = mergeHybrid(index, query, hits, ai, limit);
+            } catch (error) {
+              aiWarning = `AI search failed, showing local results only: ${error instanceof Error ? error.message : String(error)}`;
+            }
+          } else {
+            aiWarning = "The query has no search text, so AI search was skipped.";
+          }
+        }
+
+        const structured = {
+          indexed: index.size,
+          hits: hits.map((hit) => ({ note: formatter.noteData(hit.note), score: hit.score, snippet: hit.snippet, sources: hit.sources })),
+          ...(aiWarning ? { warning: aiWarning } : {}),
+        };
+        return formatResult(format, structured, () => [
+          `Found ${hits.length} note(s) among ${index.size} indexed:`,
+          ...hits.map((hit) => formatter.formatNote(
+            hit.note,
+            format,
+            `score ${hit.score.toFixed(3)}${args.mode === "hybrid" ? ` (${hit.sources.join("+")})` : ""}: ${hit.snippet}`
+          )),
+          ...(aiWarning ? [aiWarning] : []),
+        ]);
+      }
+
+      case "review_blinko_daily_notes": {
+        const format = parseFormat(request.params.arguments?.format);
+        const notes = await blinko.getDailyReviewNotes();
+
+        return formatResult(format, { notes: notes.map((note) => formatter.noteData(note)) }, () => [
+          `Found ${notes.length} note(s) for today's review:`,
+          ...notes.map((note) => formatter.formatNote(note, format)),
+        ]);
+      }
+
+      case "list_blinko_checklist": {
+        const args = request.params.arguments || {};
+        const format = parseFormat(args.format);
+        const dueBefore = args.dueBefore ? String(args.dueBefore) : undefined;
+        const matches = (item: ChecklistItem, openOnly: boolean) =>
+          (!openOnly || !item.checked) && (!dueBefore || (item.due !== undefined && item.due <= dueBefore));
+
+        if (args.noteId !== undefined) {
+          const note = await blinko.getNote(Number(args.noteId));
+          const items = parseChecklist(note.content).filter((item) => matches(item, args.openOnly === true));
+          return formatResult(format, { items: items.map((item) => ({ noteId: note.id, ...item })), total: items.length }, () =>
+            items.length
+              ? [`Note ${note.id} has ${items.length} matching checklist item(s):`, ...items.map((item) => `- ${describeChecklistItem(item)}`)].join("\n")
+              : `Note ${note.id} has no matching checklist items.`
+          );
+        }
+
+        const limit = Math.min(Number(args.limit) || 100, CHECKLIST_LIMIT);
+        const found: { noteId: number; item: ChecklistItem }[] = [];
+        for await (const note of blinko.iterateNotes({ searchText: "", hasTodo: true })) {
+          for (const item of parseChecklist(note.content)) {
+            if (matches(item, args.openOnly !== false)) {
+              found.push({ noteId: note.id, item });
+            }
+          }
+        }
+        found.sort((a, b) => compareChecklistItems(a.item, b.item) || a.noteId - b.noteId || a.item.index - b.item.index);
+        const shown = found.slice(0, limit);
+
+        return formatResult(format, { items: shown.map(({ noteId, item }) => ({ noteId, ...item })), total: found.length }, () =>
+          found.length
+            ? [
+              `Found ${found.length} checklist item(s)${found.length > shown.length ? `, showing ${shown.length}` : ""}:`,
+              ...shown.map(({ noteId, item }) => `- [Note ${noteId}] ${describeChecklistItem(item)}`),
+            ].join("\n")
+            : "No matching checklist items found."
+        );
+      }
+
+      case "toggle_blinko_checklist_item": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        const expectedUpdatedAt = args.expectedUpdatedAt ? String(args.expectedUpdatedAt) : undefined;
+
+        let item: ChecklistItem | undefined;
+        let checked = false;
+        const { note, changed } = await editNote(blinko, noteId, (content) => {
+          item = findChecklistItem(parseChecklist(content), {
+            index: args.index !== undefined ? Number(args.index) : undefined,
+            text: args.text !== undefined ? String(args.text) : undefined,
+          });
+          checked = typeof args.checked === "boolean" ? args.checked : !item.checked;
+          return setItemChecked(content, item, checked);
+        }, expectedUpdatedAt);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: changed
+                ? `${checked ? "Checked" : "Unchecked"} item #${item!.index} of note ${noteId}: ${item!.text}. updatedAt: ${note.updatedAt}`
+                : `Item #${item!.index} of note ${noteId} was already ${checked ? "checked" : "unchecked"}: ${item!.text}`,
+            },
+          ],
+        };
+      }
+
+      case "add_blinko_checklist_items": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+        if (!Array.isArray(args.items) || args.items.length === 0) {
+          throw new Error("items must be a non-empty array");
+        }
+        const items: NewChecklistItem[] = args.items.map((raw) => {
+          const item = (typeof raw === "string" ? { text: raw } : raw ?? {}) as Record<string, unknown>;
+          return {
+            text: String(item.text ?? ""),
+            due: item.due ? String(item.due) : undefined,
+            priority: item.priority ? (String(item.priority).toLowerCase() as Priority) : undefined,
+          };
+        });
+
+        const expectedUpdatedAt = args.expectedUpdatedAt ? String(args.expectedUpdatedAt) : undefined;
+
+        const { note } = await editNote(blinko, noteId, (content) => appendChecklistItems(content, items), expectedUpdatedAt);
+
+        const added = parseChecklist(note.content).slice(-items.length);
+        return {
+          content: [
+            {
+              type: "text",
+              text: [`Added ${items.length} item(s) to note ${noteId}. updatedAt: ${note.updatedAt}`, ...added.map(describeChecklistItem)].join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "attach_blinko_file": {
+        const args = request.params.arguments || {};
+        const noteId = args.noteId !== undefined ? Number(args.noteId) : undefined;
+        if (noteId !== undefined && (!noteId || isNaN(noteId))) {
+          throw new Error("Valid note ID is required");
+        }
+        if (noteId === undefined && !args.content) {
+          throw new Error("Pass noteId to attach the file to an existing note, or content to create a new note");
+        }
+        if ((args.path === undefined) === (args.data === undefined)) {
+          throw new Error("Pass exactly one of path or data");
+        }
+        const maxBytes = attachmentLimit(args.maxBytes);
+
+        let data: Buffer;
+        let name: string;
+        if (args.path !== undefined) {
+          ({ data, name } = await readLocalFile(String(args.path), maxBytes, files));
+          name = args.name ? String(args.name) : name;
+        } else {
+          if (!args.name) {
+            throw new Error("name is required with data");
+          }
+          data = decodeBase64File(String(args.data), maxBytes);
+          name = String(args.name);
+        }
+        const mimeType = args.mimeType ? String(args.mimeType) : detectMimeType(data, name);
+
+        const attachment = await blinko.uploadFile(data, name, mimeType);
+        let target: number;
+        if (noteId !== undefined) {
+          await blinko.updateNote(noteId, { attachments: [attachment] });
+          target = noteId;
+        } else {
+          const type = args.type !== undefined ? parseNoteType(args.type) : 0;
+          if (type === undefined) {
+            throw new Error("type must be 0 (flash), 1 (normal) or 2 (todo)");
+          }
+          target = (await blinko.upsertNote({ content: String(args.content), type, attachments: [attachment] })).id;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Attached ${name} (${mimeType}, ${data.length} bytes) to ${noteId !== undefined ? "" : "new "}note ${target}. Path: ${attachment.path}`,
+            },
+          ],
+        };
+      }
+
+      case "list_blinko_attachments": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+        const format = parseFormat(args.format);
+        const note = await blinko.getNote(noteId);
+        const attachments = (note.attachments ?? []).map((a) => ({
+          name: a.name,
+          path: a.path,
+          type: a.type || detectMimeType(new Uint8Array(), a.name),
+          ...(a.size !== undefined ? { size: Number(a.size) } : {}),
+        }));
+
+        return formatResult(format, { noteId, attachments }, () => attachments.length === 0
+          ? `Note ${noteId} has no attachments.`
+          : [
+              `Note ${noteId} has ${attachments.length} attachment(s):`,
+              ...attachments.map((a) => `- ${a.name} (${a.type}${a.size !== undefined ? `, ${a.size} bytes` : ""}): ${a.path}`),
+            ].join("\n"));
+      }
+
+      case "download_blinko_attachment": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+        if (!args.attachment) {
+          throw new Error("attachment is required");
+        }
+        const maxBytes = attachmentLimit(args.maxBytes);
+
+        const note = await blinko.getNote(noteId);
+        const attachment = findAttachment(note.attachments ?? [], String(args.attachment));
+        const file = await blinko.downloadFile(attachment.path, maxBytes);
+        // Servers often send files as application/octet-stream
+        const mimeType = file.contentType && file.contentType !== "application/octet-stream"
+          ? file.contentType
+          : detectMimeType(file.data, attachment.name);
+        const description = `${attachment.name} (${mimeType}, ${file.data.length} bytes)`;
+
+        const content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] = [];
+        if (args.outputPath) {
+          const saved = await saveFile(file.data, String(args.outputPath), attachment.name, args.overwrite === true, files);
+          content.push({ type: "text", text: `Saved ${description} to ${saved}` });
+        }
+        if (isInlineImage(mimeType) && file.data.length <= MAX_INLINE_IMAGE_BYTES) {
+          content.push({ type: "text", text: `Attachment ${description}:` }, { type: "image", data: file.data.toString("base64"), mimeType });
+        } else if (!args.outputPath) {
+          if (!isText(mimeType)) {
+            throw new Error(`${description} is not an image or text file; pass outputPath to save it`);
+          }
+          content.push({ type: "text", text: `Attachment ${description}:\n\n${file.data.toString("utf8")}` });
+        }
+        return { content };
+      }
+
+      case "share_blinko_note": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        const { password, isCancel } = request.params.arguments || {};
+        const passwordStr = password ? String(password) : "";
+      
+        // Validate password format if provided
+        if (passwordStr && !/^\d{6}$/.test(passwordStr)) {
+          throw new Error("Password must be exactly 6 digits");
+        }
+
+        const result = await blinko.shareNote({
+          id: noteId,
+          password: passwordStr,
+          isCancel: Boolean(isCancel),
+        });
+
+        if (result.isShare) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully shared note (ID: ${result.id})`,
+              },
+              ...(result.sharePassword ? [{
+                type: "text",
+                text: `Share password: ${result.sharePassword}`,
+              }] : []),
+              {
+                type: "text",
+                text: `Share link: ${result.shareEncryptedUrl || "N/A"}`,
+              },
+            ],
+          };
+        } else {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully cancelled sharing for note (ID: ${result.id})`,
+              },
+            ],
+          };
+        }
+      }
+
+      case "blinko_todo_report": {
+        const args = request.params.arguments || {};
+        const format = parseFormat(args.format);
+        const report = await buildTodoReport(
+          blinko,
+          formatter,
+          args.startDate ? String(args.startDate) : undefined,
+          args.endDate ? String(args.endDate) : undefined
+        );
+
+        return formatResult(format, { ...report }, () => formatTodoReport(report));
+      }
+
+      case "find_blinko_duplicates": {
+        const args = request.params.arguments || {};
+        const format = parseFormat(args.format);
+        const threshold = parseThreshold(args.threshold, duplicates.threshold);
+        const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_DUPLICATE_SCAN, 2), MAX_DUPLICATE_SCAN);
+        const type = args.type !== undefined ? (Number(args.type) as 0 | 1 | 2) : undefined;
+
+        const notes: Note[] = [];
+        for (const isArchived of args.includeArchived === true ? [false, true] : [false]) {
+          for await (const note of blinko.iterateNotes({ searchText: "", isArchived, ...(type !== undefined ? { type } : {}) })) {
+            if (notes.length >= limit) {
+              break;
+            }
+            notes.push(note);
+          }
+        }
+        const clusters = clusterDuplicates(notes, threshold);
+
+        const structured = {
+          scanned: notes.length,
+          threshold,
+          clusters: clusters.map(({ matches }) => ({
+            noteIds: matches.map((m) => m.note.id),
+            notes: matches.map(({ note, similarity }) => ({
+              id: note.id,
+              title: noteTitle(note),
+              similarity: Math.round(similarity * 100) / 100,
+              createdAt: note.createdAt,
+              isArchived: Boolean(note.isArchived),
+            })),
+          })),
+        };
+        return formatResult(format, structured, () => clusters.length === 0
+          ? `No near-duplicates among ${notes.length} note(s) at similarity ${threshold}.`
+          : [
+              `Found ${clusters.length} cluster(s) of near-duplicates among ${notes.length} note(s) at similarity ${threshold}:`,
+              ...structured.clusters.flatMap((cluster, i) => [
+                "",
+                `Cluster ${i + 1} (${cluster.noteIds.length} notes; merge with merge_blinko_duplicates noteIds [${cluster.noteIds.join(", ")}]):`,
+                ...cluster.notes.map((n, j) => `- [ID: ${n.id}] ${j === 0 ? "oldest" : `${Math.round(n.similarity * 100)}%`}${n.isArchived ? ", archived" : ""}: ${n.title}`),
+              ]),
+            ].join("\n"));
+      }
+
+      case "merge_blinko_duplicates": {
+        const args = request.params.arguments || {};
+        const noteIds = Array.isArray(args.noteIds) ? [...new Set(args.noteIds.map(Number))] : [];
+        if (noteIds.length < 2 || noteIds.some((id) => !Number.isInteger(id))) {
+          throw new Error("noteIds must list at least two note IDs");
+        }
+        const { notes, missing } = await blinko.getNotes(noteIds);
+        if (missing.length > 0) {
+          throw new Error(`Notes not found: ${missing.join(", ")}`);
+        }
+        const keep = args.keepId !== undefined
+          ? notes.find((note) => note.id === Number(args.keepId))
+          : [...notes].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))[0];
+        if (!keep) {
+          throw new Error(`keepId ${args.keepId} must be one of noteIds`);
+        }
+        const others = notes.filter((note) => note.id !== keep.id);
+
+        if (args.dryRun === true) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dry run, nothing was changed. Note ${keep.id} would become the following, and notes ${others.map((n) => n.id).join(", ")} would be archived:\n\n${mergeContents(keep.content, others.map((n) => n.content))}`,
+              },
+            ],
+          };
+        }
+
+        const { archived } = await mergeNotes(blinko, keep, others);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Merged ${others.length} note(s) into note ${keep.id} and archived notes ${archived.join(", ")}.`,
+            },
+          ],
+        };
+      }
+
+      case "link_blinko_notes":
+      case "unlink_blinko_notes": {
+        const args = request.params.arguments || {};
+        const fromNoteId = Number(args.fromNoteId);
+        const toNoteId = Number(args.toNoteId);
+        if (!fromNoteId || !toNoteId || isNaN(fromNoteId) || isNaN(toNoteId)) {
+          throw new Error("Valid fromNoteId and toNoteId are required");
+        }
+        if (fromNoteId === toNoteId) {
+          throw new Error("A note cannot link to itself");
+        }
+
+        const link = request.params.name === "link_blinko_notes";
+        const from = await blinko.getNote(fromNoteId);
+        if (link) {
+          // Make sure the target exists before linking to it
+          await blinko.getNote(toNoteId);
+        }
+        const content = link ? addLink(from.content, toNoteId) : removeLink(from.content, toNoteId);
+
+        let text: string;
+        if (content === from.content) {
+          const referenced = outgoingLinks(from).includes(toNoteId) && !extractLinks(from.content).includes(toNoteId);
+          text = link
+            ? `Note ${fromNoteId} already links to note ${toNoteId}`
+            : referenced
+              ? `Note ${fromNoteId} references note ${toNoteId} through a Blinko reference, which can only be removed in Blinko`
+              : `Note ${fromNoteId} does not link to note ${toNoteId}`;
+        } else {
+          await blinko.updateNote(fromNoteId, { content });
+          text = link ? `Linked note ${fromNoteId} to note ${toNoteId}` : `Removed the link from note ${fromNoteId} to note ${toNoteId}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      case "list_blinko_note_links": {
+        const noteId = Number(request.params.arguments?.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+
+        const note = await blinko.getNote(noteId);
+        const outgoing = await blinko.getNotes(outgoingLinks(note));
+        const backlinks = await findBacklinks(blinko, note);
+        const format = parseFormat(request.params.arguments?.format);
+        const line = (n: Note) => `- [ID: ${n.id}] ${noteTitle(n, 80)}`;
+        const summary = (n: Note) => ({ id: n.id, title: noteTitle(n, 80) });
+        const structured = {
+          noteId,
+          outgoing: outgoing.notes.map(summary),
+          missing: outgoing.missing,
+          backlinks: backlinks.map(summary),
+        };
+
+        return formatResult(format, structured, () => [
+          `${format === "markdown" ? "#### " : ""}Note ${noteId} links to ${outgoing.notes.length} note(s):`,
+          ...outgoing.notes.map(line),
+          ...outgoing.missing.map((id) => `- [ID: ${id}] (missing or deleted)`),
+          "",
+          `${format === "markdown" ? "#### " : ""}${backlinks.length} note(s) link to note ${noteId}:`,
+          ...backlinks.map(line),
+        ].join("\n"));
+      }
+
+      case "blinko_note_graph": {
+        const args = request.params.arguments || {};
+        const noteId = Number(args.noteId);
+        if (!noteId || isNaN(noteId)) {
+          throw new Error("Valid note ID is required");
+        }
+        const depth = Math.min(Math.max(Number(args.depth) || 1, 1), MAX_GRAPH_DEPTH);
+        const maxNodes = Math.min(Math.max(Number(args.maxNodes) || DEFAULT_GRAPH_NODES, 1), MAX_GRAPH_NODES);
+
+        // The graph keeps JSON as its default format, and offers Mermaid besides the shared formats
+        const format = args.format === "mermaid" ? "mermaid" : parseFormat(args.format ?? "json");
+        const graph = await buildNoteGraph(blinko, noteId, depth, maxNodes);
+        const note = graph.truncated ? `\n\nThe graph was cut off at ${maxNodes} notes.` : "";
+
+        return formatResult(format === "mermaid" ? "markdown" : format, { ...graph }, () =>
+          format === "text"
+            ? [
+              `${graph.nodes.length} note(s) within ${depth} link(s) of note ${noteId}:`,
+              ...graph.nodes.map((node) => `- [ID: ${node.id}] ${node.title} (depth ${node.depth})`),
+              "Links:",
+              ...graph.edges.map((edge) => `- ${edge.from} -> ${edge.to}`),
+            ].join("\n") + note
+            : `\`\`\`mermaid\n${graphToMermaid(graph)}\n\`\`\`${note}`
+        );
+      }
+
+      case "list_blinko_tags": {
+        const { prefix, includeArchived, format: formatArg } = request.params.arguments || {};
+        const format = parseFormat(formatArg);
+        const parent = prefix ? normalizeTag(String(prefix)) : "";
+        const notes = await scanNotes(blinko, Boolean(includeArchived));
+
+        const counts = new Map<string, number>();
+        for (const note of notes) {
+          for (const tag of extractTags(note.content)) {
+            if (!parent || isWithinTag(tag, parent)) {
+              counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+          }
+        }
+        const sorted = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+        const structured = { tags: sorted.map(([tag, count]) => ({ tag, count })), noteCount: notes.length };
+        return formatResult(format, structured, () => [
+          `Found ${sorted.length} tag(s) in ${notes.length} note(s):`,
+          ...sorted.map(([tag, count]) => `- #${tag} (${count})`),
+        ]);
+      }
+
+      case "rename_blinko_tag": {
+        const from = normalizeTag(String(request.params.arguments?.from ?? ""));
+        const to = normalizeTag(String(request.params.arguments?.to ?? ""));
+        if (!from || !to) {
+          throw new Error("Both 'from' and 'to' tags are required");
+        }
+        if (/\s|#/.test(to)) {
+          throw new Error("New tag must not contain whitespace or '#'");
+        }
+        if (isWithinTag(to, from)) {
+          throw new Error(`Cannot rename #${from} to a tag nested below it`);
+        }
+
+        const notes = await scanNotes(blinko, request.params.arguments?.includeArchived !== false);
+        const result = await rewriteNotes(blinko, notes, (content) => renameTag(content, from, to));
+
+        return rewriteResult(`Renamed #${from} to #${to}.`, result);
+      }
+
+      case "merge_blinko_tags": {
+        const { sources, target } = request.params.arguments || {};
+        const into = normalizeTag(String(target ?? ""));
+        const from = Array.isArray(sources)
+          ? sources.map((t) => normalizeTag(String(t))).filter((t) => t && t !== into)
+          : [];
+        if (!into || from.length === 0) {
+          throw new Error("A target tag and at least one different source tag are required");
+        }
+        if (/\s|#/.test(into)) {
+          throw new Error("Target tag must not contain whitespace or '#'");
+        }
+        const parent = from.find((tag) => isWithinTag(into, tag));
+        if (parent) {
+          throw new Error(`Cannot merge #${parent} into a tag nested below it`);
+        }
+
+        const notes = await scanNotes(blinko, request.params.arguments?.includeArchived !== false);
+        const result = await rewriteNotes(blinko, notes, (content) =>
+          from.reduce((acc, tag) => renameTag(acc, tag, into), content)
+        );
+
+        return rewriteResult(`Merged ${from.map((t) => `#${t}`).join(", ")} into #${into}.`, result);
+      }
+
+      case "bulk_archive_blinko_notes":
+      case "bulk_delete_blinko_notes":
+      case "bulk_update_blinko_notes":
+      case "bulk_move_blinko_notes":
+      case "bulk_complete_blinko_todos": {
+        const args = request.params.arguments || {};
+        const name = request.params.name;
+
+        let action: (id: number) => Promise<unknown>;
+        let verb: string;
+        if (name === "bulk_archive_blinko_notes") {
+          action = (id) => blinko.archiveNote(id);
+          verb = "archived";
+        } else if (name === "bulk_delete_blinko_notes") {
+          const permanent = policy.deletesPermanently(name, args);
+          action = (id) => (permanent ? blinko.deleteNote(id) : blinko.trashNote(id));
+          verb = permanent ? "deleted" : "trashed";
+        } else if (name === "bulk_complete_blinko_todos") {
+          action = (id) => blinko.archiveNote(id);
+          verb = "completed";
+        } else if (name === "bulk_move_blinko_notes") {
+          const type = Number(args.type);
+          if (type !== 0 && type !== 1 && type !== 2) {
+            throw new Error("Type must be 0 (flash), 1 (normal) or 2 (todo)");
+          }
+          action = (id) => blinko.updateNote(id, { type });
+          verb = "moved";
+        } else {
+          const updates: Record<string, boolean> = {};
+          if (args.isTop !== undefined) updates.isTop = Boolean(args.isTop);
+          if (args.isArchived !== undefined) updates.isArchived = Boolean(args.isArchived);
+          if (Object.keys(updates).length === 0) {
+            throw new Error("At least one of isTop or isArchived is required");
+          }
+          action = (id) => blinko.updateNote(id, updates);
+          verb = "updated";
+        }
+
+        const overrides = name === "bulk_complete_blinko_todos" ? { type: 2 as const } : {};
+        const selection = confirmed ?? await resolveNoteIds(blinko, args.noteIds, args.selector, overrides);
+        const report = await runBulk(selection.ids, action, Number(args.concurrency) || undefined, reportProgress);
+
+        return bulkResult(verb, report, selection);
+      }
+
+      case "export_blinko_notes": {
+        const args = request.params.arguments || {};
+        const summary = await exportNotes(blinko, {
+          directory: args.directory ? await files.resolve(String(args.directory)) : "",
+          format: args.format === "json" ? "json" : "markdown",
+          selector: parseExportSelector(args),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${summary.total} note(s) to ${summary.path}: ${summary.written} written, ${summary.unchanged} unchanged.`,
+            },
+          ],
+        };
+      }
+
+      case "import_blinko_notes": {
+        const args = request.params.arguments || {};
+        const defaultType = Number(args.defaultType);
+        const summary = await importNotes(blinko, {
+          source: args.source ? await files.resolve(String(args.source)) : "",
+          dryRun: args.dryRun === true,
+          timestamps: args.timestamps === "content" ? "content" : "none",
+          mappingFile: args.mappingFile ? await files.resolve(String(args.mappingFile)) : undefined,
+          defaultType: defaultType === 0 || defaultType === 1 || defaultType === 2 ? defaultType : undefined,
+        }, reportProgress);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatImportSummary(summary),
+            },
+          ],
+          isError: summary.total > 0 && summary.failed.length === summary.total,
+        };
+      }
+
+      case "list_blinko_templates": {
+        const format = parseFormat(request.params.arguments?.format);
+        const list = (await templates.list(blinko)).map(({ body, ...template }) => ({
+          ...template,
+          variables: templateVariables({ ...template, body }),
+        }));
+
+        return formatResult(format, { templates: list }, () => list.length === 0
+          ? "No templates found. Add Markdown files to the templates directory (BLINKO_TEMPLATES_DIR) or tag notes with #template/<name>."
+          : [
+              `${list.length} template(s):`,
+              ...list.map((t) => {
+                const variables = t.variables.map((v) => (v.required ? v.name : `${v.name}?`)).join(", ");
+                return `- ${t.name} (${typeLabel(t.type)}, from ${t.source} ${t.location}): ${t.description}${variables ? ` | variables: ${variables}` : ""}${t.recurrence ? ` | recurs: ${t.recurrence}${t.start ? ` from ${t.start}` : ""}` : ""}`;
+              }),
+            ].join("\n"));
+      }
+
+      case "create_blinko_note_from_template": {
+        const args = request.params.arguments || {};
+        const name = String(args.template ?? "");
+        if (!name) {
+          throw new Error("template is required");
+        }
+        const given = args.variables && typeof args.variables === "object" ? (args.variables as Record<string, unknown>) : {};
+        const variables = Object.fromEntries(Object.entries(given).map(([key, value]) => [key, String(value ?? "")]));
+        if (args.title !== undefined) {
+          variables.title = String(args.title);
+        }
+        const type = args.type !== undefined ? parseNoteType(args.type) : undefined;
+        if (args.type !== undefined && type === undefined) {
+          throw new Error("type must be 0 (flash), 1 (normal) or 2 (todo)");
+        }
+
+        const template = await templates.get(blinko, name);
+        const content = renderTemplate(template, variables, new Date(), templates.timeZone);
+        const noteType = type ?? template.type;
+
+        if (args.dryRun === true) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dry run, nothing was created. Template ${template.name} renders (${typeLabel(noteType)}):\n\n${content}`,
+              },
+            ],
+          };
+        }
+
+        const note = await blinko.upsertNote({ content, type: noteType });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Created note from template ${template.name} (${typeLabel(noteType)}). Note ID: ${note.id}`,
+            },
+          ],
+        };
+      }
+
+      case "generate_due_blinko_todos": {
+        const args = request.params.arguments || {};
+        const dryRun = args.dryRun === true;
+        const report = await generateDueTodos(blinko, templates, recurrenceState, {
+          instance: instanceName,
+          date: args.date !== undefined ? String(args.date) : undefined,
+          lookbackDays: args.lookbackDays !== undefined ? Number(args.lookbackDays) : undefined,
+          template: args.template !== undefined ? String(args.template) : undefined,
+          dryRun,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatGenerationReport(report, dryRun),
+            },
+          ],
+          isError: report.failed.length > 0 && report.created.length === 0 && report.existing.length === 0,
+        };
+      }
+
+      case "list_blinko_audit_log": {
+        if (!auditLog) {
+          throw new Error(AUDIT_DISABLED);
+        }
+        const args = request.params.arguments || {};
+        const format = parseFormat(args.format);
+        const limit = Math.min(Math.max(Number(args.limit) || 20, 1), AUDIT_LIST_LIMIT);
+        const noteId = args.noteId !== undefined ? Number(args.noteId) : undefined;
+
+        const entries = await auditLog.entries();
+        const undone = undoneEntryIds(entries);
+        const matching = entries
+          .filter((entry) => entry.instance === instanceName)
+          .filter((entry) => noteId === undefined || entry.changes.some((change) => change.noteId === noteId))
+          .reverse();
+        const shown = matching.slice(0, limit);
+
+        const structured = {
+          path: auditLog.path,
+          entries: shown.map(({ changes, ...entry }) => ({
+            ...entry,
+            changes: changes.map(({ action, noteId }) => ({ action, noteId })),
+            undone: undone.has(entry.id),
+          })),
+        };
+        return formatResult(format, structured, () => [
+          `Showing ${shown.length} of ${matching.length} audit log entries for instance ${instanceName}, newest first:`,
+          ...shown.map((entry) => `- ${describeEntry(entry)}${undone.has(entry.id) ? " [undone]" : ""}`),
+        ].join("\n"));
+      }
+
+      case "blinko_undo": {
+        if (!auditLog) {
+          throw new Error(AUDIT_DISABLED);
+        }
+        const { instance: _, ...args } = request.params.arguments || {};
+        const entries = await auditLog.entries();
+
+        let targets: AuditEntry[];
+        if (args.entryId !== undefined) {
+          const entry = entries.find((e) => e.id === String(args.entryId));
+          if (!entry) {
+            throw new Error(`Audit log entry ${args.entryId} not found`);
+          }
+          if (entry.instance !== instanceName) {
+            throw new Error(`Entry ${entry.id} changed instance ${entry.instance}; call blinko_undo with instance "${entry.instance}"`);
+          }
+          if (undoneEntryIds(entries).has(entry.id)) {
+            throw new Error(`Entry ${entry.id} was already undone`);
+          }
+          const later = laterChanges(entries, entry);
+          if (later.length > 0 && args.force !== true) {
+            throw new Error(`Notes changed by entry ${entry.id} were changed again later by ${later.map((e) => e.id).join(", ")}. Undo those first, or pass force: true to overwrite their changes.`);
+          }
+          targets = [entry];
+        } else {
+          const count = Math.min(Math.max(Number(args.count) || 1, 1), UNDO_LIMIT);
+          targets = undoableEntries(entries, instanceName).slice(0, count);
+        }
+
+        if (targets.length === 0) {
+          return { content: [{ type: "text", text: "Nothing to undo." }] };
+        }
+        if (args.dryRun === true) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: [`Dry run, nothing was changed. Would undo ${targets.length} operation(s):`, ...targets.map((entry) => `- ${describeEntry(entry)}`)].join("\n"),
+              },
+            ],
+          };
+        }
+
+        // The undo is logged as an entry of its own, naming the entries it reverted
+        const changes: AuditChange[] = [];
+        const undone: string[] = [];
+        const lines: string[] = [];
+        await auditContext.run(changes, async () => {
+          for (const entry of targets) {
+            const { reverted, failed } = await undoEntry(blinko, entry);
+            if (failed.length === 0) {
+              undone.push(entry.id);
+            }
+            lines.push(
+              `${failed.length ? "Partly undid" : "Undid"} ${entry.id} (${entry.tool}):`,
+              ...reverted.map((line) => `- ${line}`),
+              ...failed.map((line) => `- Failed: ${line}`)
+            );
+          }
+        });
+        const logged = await auditLog.append({ tool: "blinko_undo", instance: instanceName, arguments: args, changes, undoes: undone });
+        lines.push(`Logged as entry ${logged.id}; undo it with blinko_undo entryId "${logged.id}".`);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: lines.join("\n"),
+            },
+          ],
+          isError: undone.length === 0,
+        };
+      }
+
+      case "copy_blinko_notes": {
+        const args = request.params.arguments || {};
+        const from = instanceName;
+        const to = String(args.targetInstance ?? "");
+        if (!to) {
+          throw new Error("targetInstance is required");
+        }
+        if (to === from) {
+          throw new Error("The target instance must differ from the source instance");
+        }
+        const target = instances.get(to);
+        const selection = await resolveNoteIds(blinko, args.noteIds, args.selector);
+        const noteIds = selection.ids;
+        const report = await copyNotes(blinko, target, noteIds, reportProgress);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [formatCopyReport(report, from, to), ...selectionNotice(selection)].join("\n"),
+            },
+          ],
+          isError: noteIds.length > 0 && report.copied.length === 0 && report.skipped.length === 0,
+        };
+      }
+
+      case "sync_blinko_mirror": {
+        if (!(blinko instanceof MirroredBlinkoClient)) {
+          throw new Error("The local mirror is not enabled. Ask the user to set BLINKO_MIRROR_DIR (or --mirror_dir).");
+        }
+        const resolution = request.params.arguments?.resolveConflicts;
+        const { replay, sync } = await blinko.syncMirror(
+          resolution === "keep_remote" || resolution === "overwrite" ? resolution : undefined
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatSyncResult(replay, sync),
+            },
+          ],
+        };
+      }
+
+      case "clear_blinko_recycle_bin": {
+        const result = await blinko.clearRecycleBin();
+
+        if (!result.success) {
+          throw new Error("Failed to clear recycle bin");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Successfully cleared Blinko recycle bin.",
+            },
+          ],
+        };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+  };
+
+  /**
+   * Handler for the Blinko tools.
+   * Failures are returned as isError results instead of protocol errors.
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const notice: OfflineNotice = { queued: 0 };
+    const changes: AuditChange[] = [];
+    const run = () => offlineContext.run(notice, () => duplicateContext.run(new Map(), () => callTool(request)));
+    let failure: unknown;
+    try {
+      const result = await (auditLog ? auditContext.run(changes, run) : run());
+      return withOfflineNotice(result, notice);
+    } catch (error) {
+      failure = error;
+      return toolErrorResult(error);
+    } finally {
+      if (auditLog && changes.length > 0) {
+        const { instance, ...args } = request.params.arguments || {};
+        await auditLog.append({
+          tool: request.params.name,
+          instance: instance ? String(instance) : instances.defaultName,
+          arguments: args,
+          changes,
+          ...(failure !== undefined ? { error: failure instanceof Error ? failure.message : String(failure) } : {}),
+        }).catch((error) => {
+          console.error("Failed to write the audit log:", error);
+        });
+      }
+    }
+  });
+}